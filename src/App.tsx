@@ -4,6 +4,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { useAuthStore } from "@/lib/stores";
+import { isVaultUnlocked } from "@/lib/vault";
+import ApiKeyUnlockDialog from "@/components/ApiKeyUnlockDialog";
+import CrossTabSync from "@/components/CrossTabSync";
+import SessionBootstrap from "@/components/SessionBootstrap";
 import AuthPage from "./pages/AuthPage";
 import OnboardingRole from "./pages/OnboardingRole";
 import OnboardingProfile from "./pages/OnboardingProfile";
@@ -16,8 +20,15 @@ import NotFound from "./pages/NotFound";
 const queryClient = new QueryClient();
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { isAuthenticated } = useAuthStore();
-  return isAuthenticated ? <>{children}</> : <Navigate to="/auth" replace />;
+  const { isAuthenticated, currentUser } = useAuthStore();
+  if (!isAuthenticated) {
+    return <Navigate to="/auth" replace />;
+  }
+  // Encryption keys don't survive a reload; protected profiles must unlock again
+  if (currentUser?.passphraseProtected && !isVaultUnlocked(currentUser.id!)) {
+    return <Navigate to="/auth" replace state={{ lockedUserId: currentUser.id }} />;
+  }
+  return <>{children}</>;
 };
 
 const App = () => (
@@ -25,60 +36,64 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <ApiKeyUnlockDialog />
+      <CrossTabSync />
       <BrowserRouter>
-        <Routes>
-          <Route path="/auth" element={<AuthPage />} />
-          <Route 
-            path="/onboarding/role" 
-            element={
-              <ProtectedRoute>
-                <OnboardingRole />
-              </ProtectedRoute>
-            } 
-          />
-          <Route 
-            path="/onboarding/profile" 
-            element={
-              <ProtectedRoute>
-                <OnboardingProfile />
-              </ProtectedRoute>
-            } 
-          />
-          <Route 
-            path="/onboarding/additional" 
-            element={
-              <ProtectedRoute>
-                <OnboardingAdditional />
-              </ProtectedRoute>
-            } 
-          />
-          <Route 
-            path="/analysis" 
-            element={
-              <ProtectedRoute>
-                <AnalysisPage />
-              </ProtectedRoute>
-            } 
-          />
-          <Route 
-            path="/chat" 
-            element={
-              <ProtectedRoute>
-                <ChatPage />
-              </ProtectedRoute>
-            } 
-          />
-          <Route 
-            path="/settings" 
-            element={
-              <ProtectedRoute>
-                <SettingsPage />
-              </ProtectedRoute>
-            } 
-          />
-          <Route path="/" element={<Navigate to="/auth" replace />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <SessionBootstrap>
+          <Routes>
+            <Route path="/auth" element={<AuthPage />} />
+            <Route 
+              path="/onboarding/role" 
+              element={
+                <ProtectedRoute>
+                  <OnboardingRole />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/onboarding/profile" 
+              element={
+                <ProtectedRoute>
+                  <OnboardingProfile />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/onboarding/additional" 
+              element={
+                <ProtectedRoute>
+                  <OnboardingAdditional />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/analysis" 
+              element={
+                <ProtectedRoute>
+                  <AnalysisPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/chat" 
+              element={
+                <ProtectedRoute>
+                  <ChatPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/settings" 
+              element={
+                <ProtectedRoute>
+                  <SettingsPage />
+                </ProtectedRoute>
+              } 
+            />
+            <Route path="/" element={<Navigate to="/auth" replace />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </SessionBootstrap>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRight, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuthStore } from '@/lib/stores';
+import { diffAnalyses, isEmptyDiff, type ListDiff } from '@/lib/analysisDiff';
+import {
+  getAnalysisHistory,
+  restoreAnalysisVersion,
+  type CareerAnalysis,
+  type StudentProfile,
+  type ProfessionalProfile
+} from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+interface AnalysisHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (analysis: CareerAnalysis) => void;
+}
+
+const names = (items: Array<string | { name: string }> | undefined) => {
+  const list = (items || []).map(item => (typeof item === 'string' ? item : item.name)).filter(Boolean);
+  return list.length > 0 ? list.join(', ') : 'None';
+};
+
+// Key facts from the profile a version was generated from
+const describeProfile = (snapshot: StudentProfile | ProfessionalProfile, profileType?: 'student' | 'professional') => {
+  const { timeline, budget, remote } = snapshot.preferences || {};
+  const preferences = [timeline?.replace('-', ' '), budget, remote ? 'remote' : undefined].filter(Boolean).join(' · ');
+
+  const isProfessional = (profileType ?? ('role' in snapshot ? 'professional' : 'student')) === 'professional';
+  const background = isProfessional
+    ? [
+        { label: 'Role', value: `${(snapshot as ProfessionalProfile).role || 'Professional'} · ${(snapshot as ProfessionalProfile).yearsExperience || 0} years` },
+        { label: 'Desired roles', value: names((snapshot as ProfessionalProfile).desiredRoles) }
+      ]
+    : [
+        { label: 'Education', value: names((snapshot as StudentProfile).education?.map(entry => [entry.degree, entry.major].filter(Boolean).join(' in '))) },
+        { label: 'Interests', value: names((snapshot as StudentProfile).interests) }
+      ];
+
+  return [
+    ...background,
+    { label: 'Skills', value: names(snapshot.skills) },
+    { label: 'Locations', value: names(snapshot.preferredLocations) },
+    { label: 'Preferences', value: preferences || 'None' }
+  ];
+};
+
+const versionLabel = (analysis: CareerAnalysis) =>
+  `Version ${analysis.version} · ${new Date(analysis.createdAt).toLocaleDateString()}`;
+
+const VersionColumn: React.FC<{ analysis: CareerAnalysis }> = ({ analysis }) => (
+  <div className="space-y-3 rounded-md border border-border/50 p-3">
+    <div className="flex items-center justify-between">
+      <span className="font-medium">{versionLabel(analysis)}</span>
+      {analysis.latest && <Badge>Current</Badge>}
+    </div>
+    <div className="space-y-1 text-sm">
+      <p>
+        <span className="font-medium">Plan A:</span> {analysis.plans?.A?.title}{' '}
+        <span className="text-muted-foreground">({analysis.plans?.A?.fitScore}% fit)</span>
+      </p>
+      <p><span className="font-medium">Plan B:</span> {analysis.plans?.B?.title}</p>
+      <p><span className="font-medium">Plan C:</span> {analysis.plans?.C?.title}</p>
+    </div>
+    <Separator />
+    <div className="space-y-1 text-xs">
+      <p className="font-medium text-sm">Profile snapshot</p>
+      {analysis.profileSnapshot ? (
+        describeProfile(analysis.profileSnapshot, analysis.profileType).map(fact => (
+          <p key={fact.label}>
+            <span className="text-muted-foreground">{fact.label}:</span> {fact.value}
+          </p>
+        ))
+      ) : (
+        <p className="text-muted-foreground">Not recorded for this version.</p>
+      )}
+    </div>
+  </div>
+);
+
+const ListChanges: React.FC<{ label: string; diff: ListDiff }> = ({ label, diff }) => {
+  if (diff.added.length === 0 && diff.removed.length === 0) return null;
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {diff.added.map(item => (
+          <Badge key={`+${item}`} variant="outline" className="text-xs border-success/50 text-success">+ {item}</Badge>
+        ))}
+        {diff.removed.map(item => (
+          <Badge key={`-${item}`} variant="outline" className="text-xs border-destructive/50 text-destructive">− {item}</Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Every saved analysis version, with a side-by-side comparison and restore
+const AnalysisHistoryDialog: React.FC<AnalysisHistoryDialogProps> = ({ open, onOpenChange, onRestore }) => {
+  const { currentUser } = useAuthStore();
+  const [history, setHistory] = useState<CareerAnalysis[]>([]);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!open || !userId) return;
+
+    getAnalysisHistory(userId)
+      .then(versions => {
+        setHistory(versions);
+        // Compare the current version with the one before it
+        const current = versions.find(version => version.latest) || versions[0];
+        const previous = versions.find(version => version.id !== current?.id);
+        setCompareId(current?.id ?? null);
+        setBaseId(previous?.id ?? current?.id ?? null);
+      })
+      .catch(error => {
+        console.error('Failed to load analysis history:', error);
+        toast({
+          title: "History Unavailable",
+          description: "Failed to load your previous analyses.",
+          variant: "destructive"
+        });
+      });
+  }, [open, currentUser?.id]);
+
+  const handleRestore = async (analysis: CareerAnalysis) => {
+    if (!currentUser?.id || !analysis.id) return;
+
+    setRestoring(true);
+    try {
+      const restored = await restoreAnalysisVersion(currentUser.id, analysis.id);
+      if (!restored) return;
+      setHistory(history.map(version => ({ ...version, latest: version.id === restored.id })));
+      onRestore(restored);
+      toast({
+        title: "Version Restored",
+        description: `Version ${restored.version} is your current analysis again.`
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: "Failed to restore this version. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const base = history.find(version => version.id === baseId);
+  const compare = history.find(version => version.id === compareId);
+  const diff = base && compare && base !== compare ? diffAnalyses(base, compare) : null;
+
+  const versionSelect = (value: number | null, onChange: (id: number) => void) => (
+    <Select value={value !== null ? String(value) : undefined} onValueChange={(id) => onChange(Number(id))}>
+      <SelectTrigger className="w-56">
+        <SelectValue placeholder="Select a version" />
+      </SelectTrigger>
+      <SelectContent>
+        {history.map(version => (
+          <SelectItem key={version.id} value={String(version.id)}>
+            {versionLabel(version)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Analysis History</DialogTitle>
+          <DialogDescription>
+            Compare your analyses side by side, or restore an earlier version as your current one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-4">
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No saved analyses yet.</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex flex-col sm:flex-row sm:items-end gap-2">
+                <div className="space-y-2">
+                  <Label>Compare</Label>
+                  {versionSelect(baseId, setBaseId)}
+                </div>
+                <ArrowRight className="hidden sm:block w-4 h-4 mb-3 text-muted-foreground" />
+                <div className="space-y-2">
+                  <Label>With</Label>
+                  {versionSelect(compareId, setCompareId)}
+                </div>
+              </div>
+
+              {base && compare && (
+                <div className="grid md:grid-cols-2 gap-4">
+                  <VersionColumn analysis={base} />
+                  <VersionColumn analysis={compare} />
+                </div>
+              )}
+
+              {diff && (
+                <div className="space-y-3">
+                  <h4 className="font-semibold">What changed</h4>
+                  {isEmptyDiff(diff) ? (
+                    <p className="text-sm text-muted-foreground">These versions recommend the same plans and resources.</p>
+                  ) : (
+                    <>
+                      {diff.plans.map(change => (
+                        <p key={change.slot} className="text-sm">
+                          <span className="font-medium">Plan {change.slot}:</span>{' '}
+                          <span className="line-through text-muted-foreground">{change.before}</span> → {change.after}
+                        </p>
+                      ))}
+                      {diff.fitScore && (
+                        <p className="text-sm">
+                          <span className="font-medium">Plan A fit score:</span> {diff.fitScore.before}% → {diff.fitScore.after}%{' '}
+                          <span className={diff.fitScore.delta > 0 ? 'text-success' : 'text-destructive'}>
+                            ({diff.fitScore.delta > 0 ? '+' : ''}{diff.fitScore.delta})
+                          </span>
+                        </p>
+                      )}
+                      <ListChanges label="Skills" diff={diff.skills} />
+                      <ListChanges label="Courses & resources" diff={diff.resources} />
+                      <ListChanges label="Timeline milestones" diff={diff.milestones} />
+                      {diff.summaryChanged && (
+                        <p className="text-xs text-muted-foreground">The summary was rewritten.</p>
+                      )}
+                    </>
+                  )}
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="space-y-2">
+                <h4 className="font-semibold">All versions</h4>
+                {history.map(version => (
+                  <div key={version.id} className="flex items-start justify-between gap-4 rounded-md border border-border/50 p-3">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium">{versionLabel(version)}</span>
+                        {version.latest && <Badge>Current</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{version.plans?.A?.title}</p>
+                      {version.changeNotes && version.changeNotes.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Revised in chat: {version.changeNotes.join('; ')}</p>
+                      )}
+                    </div>
+                    {!version.latest && (
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(version)} disabled={restoring}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AnalysisHistoryDialog;
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Check, X, GitCompare } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { describeChange, type AnalysisProposal } from '@/lib/analysisTools';
+import type { CareerAnalysis, StudentProfile, ProfessionalProfile } from '@/lib/db';
+
+interface AnalysisProposalCardProps {
+  proposal: AnalysisProposal;
+  analysis: CareerAnalysis;
+  profile: StudentProfile | ProfessionalProfile | null;
+  disabled?: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+// Changes the assistant proposed to the saved analysis, shown as a diff to accept or reject
+const AnalysisProposalCard: React.FC<AnalysisProposalCardProps> = ({
+  proposal,
+  analysis,
+  profile,
+  disabled = false,
+  onAccept,
+  onReject
+}) => {
+  const isPending = proposal.status === 'pending';
+
+  return (
+    <div className="mt-3 rounded-md border border-border/50 bg-background/60 p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium">
+          <GitCompare className="w-4 h-4 text-primary" />
+          <span>Proposed changes</span>
+        </div>
+        {!isPending && (
+          <Badge variant={proposal.status === 'accepted' ? 'default' : 'secondary'}>
+            {proposal.status === 'accepted' ? 'Accepted' : 'Rejected'}
+          </Badge>
+        )}
+      </div>
+
+      {proposal.changes.map((change, index) => {
+        const { title, reason, lines } = describeChange(change, analysis, profile);
+        return (
+          <div key={index} className="space-y-1">
+            <p className="text-sm font-medium">{title}</p>
+            {reason && <p className="text-xs text-muted-foreground">{reason}</p>}
+            {/* Once resolved, the current analysis no longer shows what the change replaced */}
+            {isPending && (
+              <div className="space-y-1 text-xs">
+                {lines.map(line => (
+                  <div key={line.label}>
+                    <span className="font-medium">{line.label}: </span>
+                    {line.before !== undefined && (
+                      <span className="line-through text-destructive/80 mr-1">{line.before}</span>
+                    )}
+                    <span className="text-success">{line.after}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {isPending && (
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onAccept} disabled={disabled}>
+            <Check className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+          <Button size="sm" variant="outline" onClick={onReject} disabled={disabled}>
+            <X className="w-4 h-4 mr-1" />
+            Reject
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisProposalCard;
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Eye, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useSettingsStore } from '@/lib/stores';
+import {
+  hasLegacyApiKey,
+  isApiKeyLocked,
+  unlockApiKey,
+  migrateLegacyApiKey,
+  discardLegacyApiKey,
+  getApiKey
+} from '@/lib/openai';
+import { PROVIDERS } from '@/lib/providers';
+import { toast } from '@/hooks/use-toast';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const getLockedProviders = () => Object.values(PROVIDERS).filter(provider => isApiKeyLocked(provider.id));
+
+// Prompts on app start to unlock an encrypted API key, or to encrypt a plaintext key left by older builds
+const ApiKeyUnlockDialog: React.FC = () => {
+  const { setKeyValid } = useSettingsStore();
+  const [mode, setMode] = useState<'unlock' | 'migrate' | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (hasLegacyApiKey()) {
+      setMode('migrate');
+    } else if (getLockedProviders().length > 0) {
+      setMode('unlock');
+    }
+  }, []);
+
+  const close = () => {
+    setMode(null);
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError('');
+  };
+
+  const handleUnlock = async () => {
+    if (!passphrase) return;
+
+    setLoading(true);
+    setError('');
+    try {
+      // Keys saved for different providers usually share the passphrase
+      const results = await Promise.allSettled(
+        getLockedProviders().map(provider => unlockApiKey(passphrase, provider.id))
+      );
+      const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+      if (!results.some(result => result.status === 'fulfilled')) {
+        throw failure?.reason;
+      }
+
+      // Trust a key that decrypts rather than spend a billed request on every unlock; the Test button
+      // in Settings checks it against the provider
+      if (getApiKey()) setKeyValid(true);
+      toast({
+        title: "API Key Unlocked",
+        description: "Your saved API key is available for this session."
+      });
+      close();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock API key.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    try {
+      await migrateLegacyApiKey(passphrase);
+      if (useSettingsStore.getState().openaiKey) setKeyValid(true);
+      toast({
+        title: "API Key Encrypted",
+        description: "Your saved API key is now encrypted with your passphrase."
+      });
+      close();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to encrypt API key.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    discardLegacyApiKey();
+    toast({
+      title: "API Key Removed",
+      description: "The unencrypted key was removed. You can add it again in Settings."
+    });
+    close();
+  };
+
+  const handleSubmit = mode === 'migrate' ? handleMigrate : handleUnlock;
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="w-5 h-5" />
+            {mode === 'migrate' ? 'Secure Your Saved API Key' : 'Unlock Your API Keys'}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === 'migrate'
+              ? 'An API key from an earlier version is stored without encryption. Choose a passphrase to encrypt it.'
+              : 'Enter your passphrase to decrypt the API keys saved on this device.'
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="unlock-passphrase">Passphrase</Label>
+            <div className="relative">
+              <Input
+                id="unlock-passphrase"
+                type={showPassphrase ? 'text' : 'password'}
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                autoFocus
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="absolute right-0 top-0 h-full px-3"
+                onClick={() => setShowPassphrase(!showPassphrase)}
+              >
+                {showPassphrase ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+
+          {mode === 'migrate' && (
+            <div className="space-y-2">
+              <Label htmlFor="unlock-passphrase-confirm">Confirm Passphrase</Label>
+              <Input
+                id="unlock-passphrase-confirm"
+                type={showPassphrase ? 'text' : 'password'}
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {mode === 'migrate' ? (
+            <Button variant="outline" onClick={handleDiscard} disabled={loading}>
+              Remove Key
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={close} disabled={loading}>
+              Skip
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={loading || !passphrase}>
+            {loading
+              ? 'Working...'
+              : mode === 'migrate' ? 'Encrypt Key' : 'Unlock'
+            }
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApiKeyUnlockDialog;
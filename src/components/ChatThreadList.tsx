@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Plus, MessageSquare, MoreHorizontal, Pencil, Archive, ArchiveRestore, Trash2, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import type { ChatThread } from '@/lib/db';
+
+interface ChatThreadListProps {
+  threads: ChatThread[];
+  currentThreadId: number | null;
+  disabled?: boolean;
+  className?: string;
+  onSelect: (threadId: number) => void;
+  onCreate: () => void;
+  onRename: (threadId: number, title: string) => void;
+  onArchive: (threadId: number, archived: boolean) => void;
+  onDelete: (threadId: number) => void;
+}
+
+const ChatThreadList: React.FC<ChatThreadListProps> = ({
+  threads,
+  currentThreadId,
+  disabled = false,
+  className = '',
+  onSelect,
+  onCreate,
+  onRename,
+  onArchive,
+  onDelete
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const visibleThreads = threads.filter(thread => showArchived || !thread.archived);
+
+  const startRename = (thread: ChatThread) => {
+    setEditingId(thread.id!);
+    setEditingTitle(thread.title);
+  };
+
+  const cancelRename = () => {
+    setEditingId(null);
+    setEditingTitle('');
+  };
+
+  const submitRename = () => {
+    if (editingId !== null && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    cancelRename();
+  };
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      <div className="p-3">
+        <Button onClick={onCreate} disabled={disabled} className="w-full" size="sm">
+          <Plus className="w-4 h-4 mr-2" />
+          New Chat
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1 px-2">
+        <div className="space-y-1 pb-2">
+          {visibleThreads.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">
+              No conversations yet
+            </p>
+          )}
+
+          {visibleThreads.map((thread) => {
+            const isActive = thread.id === currentThreadId;
+
+            if (editingId === thread.id) {
+              return (
+                <div key={thread.id} className="flex items-center gap-1 p-1">
+                  <Input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') cancelRename();
+                    }}
+                    className="h-8 text-sm"
+                    autoFocus
+                  />
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={submitRename}>
+                    <Check className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={cancelRename}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            }
+
+            return (
+              <div
+                key={thread.id}
+                className={cn(
+                  'group flex items-center rounded-md text-sm transition-colors',
+                  isActive ? 'bg-primary/10 text-primary' : 'hover:bg-muted',
+                  thread.archived && 'opacity-60'
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex-1 flex items-center gap-2 px-2 py-2 text-left min-w-0 disabled:cursor-not-allowed"
+                  onClick={() => onSelect(thread.id!)}
+                  disabled={disabled}
+                >
+                  <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                  <span className="truncate">{thread.title}</span>
+                </button>
+
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+                      disabled={disabled}
+                    >
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => startRename(thread)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onArchive(thread.id!, !thread.archived)}>
+                      {thread.archived ? (
+                        <>
+                          <ArchiveRestore className="w-4 h-4 mr-2" />
+                          Unarchive
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="w-4 h-4 mr-2" />
+                          Archive
+                        </>
+                      )}
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => onDelete(thread.id!)}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="flex items-center justify-between p-3 border-t border-border/50">
+        <Label htmlFor="show-archived" className="text-xs text-muted-foreground">
+          Show archived
+        </Label>
+        <Switch
+          id="show-archived"
+          checked={showArchived}
+          onCheckedChange={setShowArchived}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ChatThreadList;
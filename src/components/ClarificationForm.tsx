@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { HelpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+interface ClarificationFormProps {
+  questions: string[];
+  round: number;
+  disabled?: boolean;
+  onSubmit: (answers: string[]) => void;
+}
+
+// Follow-up questions the analysis asks before it recommends career paths
+const ClarificationForm: React.FC<ClarificationFormProps> = ({ questions, round, disabled, onSubmit }) => {
+  const [answers, setAnswers] = useState<string[]>(() => questions.map(() => ''));
+
+  useEffect(() => {
+    setAnswers(questions.map(() => ''));
+  }, [questions]);
+
+  const updateAnswer = (index: number, value: string) => {
+    setAnswers(answers.map((answer, i) => (i === index ? value : answer)));
+  };
+
+  const hasAnswers = answers.some(answer => answer.trim());
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <HelpCircle className="w-5 h-5 text-primary" />
+          <span>A Few Questions First</span>
+        </CardTitle>
+        <CardDescription>
+          {round > 1
+            ? `Thanks! Just a bit more detail is needed (round ${round}).`
+            : 'Your answers help tailor the recommendations. Leave any you prefer not to answer blank.'
+          }
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {questions.map((question, index) => (
+          <div key={`${round}-${index}`} className="space-y-2">
+            <Label htmlFor={`clarification-${index}`}>{question}</Label>
+            <Textarea
+              id={`clarification-${index}`}
+              value={answers[index] || ''}
+              onChange={(e) => updateAnswer(index, e.target.value)}
+              disabled={disabled}
+              rows={2}
+            />
+          </div>
+        ))}
+
+        <div className="flex flex-col sm:flex-row gap-2 justify-end">
+          <Button
+            variant="outline"
+            onClick={() => onSubmit(questions.map(() => ''))}
+            disabled={disabled}
+          >
+            Skip Questions
+          </Button>
+          <Button onClick={() => onSubmit(answers)} disabled={disabled || !hasAnswers}>
+            Continue Analysis
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClarificationForm;
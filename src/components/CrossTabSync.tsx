@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { useAuthStore, useProfileStore, useAnalysisStore, useChatStore } from '@/lib/stores';
+import { subscribeToChanges } from '@/lib/sync';
+import { getProfileByUserId, getLatestAnalysis } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+const AUTH_STORAGE_KEY = 'skilllead-auth';
+
+// Keeps this tab's stores in step with profile, analysis and sign-in changes made in other tabs.
+// Chat threads follow their own changes in ChatPage.
+const CrossTabSync: React.FC = () => {
+  useEffect(() => {
+    const unsubscribe = subscribeToChanges(async (event) => {
+      if (event.type === 'data-replaced') {
+        toast({
+          title: "Data Changed in Another Tab",
+          description: "Your data was replaced by an import or undo. Please refresh the page."
+        });
+        return;
+      }
+
+      const userId = useAuthStore.getState().currentUser?.id;
+      if (event.type === 'chat' || !userId || event.userId !== userId) return;
+
+      try {
+        if (event.type === 'profile') {
+          const profile = await getProfileByUserId(userId, event.profileType);
+          if (!profile) return;
+
+          const keptFields = useProfileStore.getState().mergeRemoteProfile(profile, event.profileType);
+          if (keptFields.length > 0) {
+            toast({
+              title: "Profile Updated in Another Tab",
+              description: "Your unsaved changes here were kept and will replace those fields when you save."
+            });
+          }
+        } else if (event.type === 'analysis') {
+          // An analysis running in this tab saves its own result
+          if (useAnalysisStore.getState().isAnalyzing) return;
+          const analysis = await getLatestAnalysis(userId);
+          if (analysis) useAnalysisStore.getState().setAnalysis(analysis);
+        }
+      } catch (error) {
+        // e.g. a protected profile that this tab hasn't unlocked
+        console.warn('Failed to apply a change from another tab:', error);
+      }
+    });
+
+    // Signing in, out or switching profiles in another tab
+    const handleStorage = async (event: StorageEvent) => {
+      if (event.key !== AUTH_STORAGE_KEY) return;
+
+      const previousUserId = useAuthStore.getState().currentUser?.id;
+      await useAuthStore.persist.rehydrate();
+      if (useAuthStore.getState().currentUser?.id !== previousUserId) {
+        useProfileStore.getState().clearProfile();
+        useAnalysisStore.getState().clearAnalysis();
+        useChatStore.getState().setCurrentThread(null);
+        useChatStore.getState().clearMessages();
+      }
+    };
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
+  return null;
+};
+
+export default CrossTabSync;
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { Download, Eye, EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuthStore } from '@/lib/stores';
+import { exportAllData, exportUserData } from '@/lib/db';
+import { BACKUP_SECTIONS, BACKUP_SECTION_LABELS, encryptBackup, type BackupSection } from '@/lib/backup';
+import { toast } from '@/hooks/use-toast';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const fileSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'profile';
+
+// Export the signed-in user's data, or everything on this device, optionally encrypted with a passphrase
+const ExportDialog: React.FC<ExportDialogProps> = ({ open, onOpenChange }) => {
+  const { currentUser } = useAuthStore();
+  const [scope, setScope] = useState<'user' | 'device'>('user');
+  const [sections, setSections] = useState<BackupSection[]>([...BACKUP_SECTIONS]);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [error, setError] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const exportScope = currentUser?.id ? scope : 'device';
+
+  const toggleSection = (section: BackupSection, checked: boolean) => {
+    setSections(checked
+      ? BACKUP_SECTIONS.filter(item => item === section || sections.includes(item))
+      : sections.filter(item => item !== section));
+  };
+
+  const close = () => {
+    setPassphrase('');
+    setConfirmPassphrase('');
+    setError('');
+    onOpenChange(false);
+  };
+
+  const handleExport = async () => {
+    if (encrypt) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError('Passphrases do not match.');
+        return;
+      }
+    }
+
+    setExporting(true);
+    setError('');
+    try {
+      const backup = exportScope === 'user'
+        ? await exportUserData(currentUser!.id!, sections)
+        : await exportAllData();
+      const baseName = `skilllead-${exportScope === 'user' ? fileSlug(currentUser!.name) : 'backup'}-${new Date().toISOString().split('T')[0]}`;
+
+      if (encrypt) {
+        const encrypted = await encryptBackup(backup, passphrase);
+        downloadFile(JSON.stringify(encrypted), `${baseName}.skilllead`, 'application/octet-stream');
+      } else {
+        downloadFile(JSON.stringify(backup, null, 2), `${baseName}.json`, 'application/json');
+      }
+
+      toast({
+        title: "Data Exported",
+        description: encrypt
+          ? "Your encrypted backup has been downloaded. You'll need the passphrase to import it."
+          : "Your data has been exported successfully."
+      });
+      close();
+    } catch (err) {
+      toast({
+        title: "Export Failed",
+        description: "Failed to export data. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export Data</DialogTitle>
+          <DialogDescription>
+            Choose what goes into the backup file, and whether to protect it with a passphrase.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={exportScope} onValueChange={(value) => setScope(value as 'user' | 'device')}>
+            {currentUser?.id && (
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="user" id="export-scope-user" />
+                <Label htmlFor="export-scope-user" className="font-normal">Only {currentUser.name}'s data</Label>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="device" id="export-scope-device" />
+              <Label htmlFor="export-scope-device" className="font-normal">
+                Everything on this device, including other profiles and settings
+              </Label>
+            </div>
+          </RadioGroup>
+
+          {exportScope === 'user' && (
+            <div className="space-y-2">
+              <Label>Include</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {BACKUP_SECTIONS.map(section => (
+                  <div key={section} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`export-section-${section}`}
+                      checked={sections.includes(section)}
+                      onCheckedChange={(checked) => toggleSection(section, checked === true)}
+                    />
+                    <Label htmlFor={`export-section-${section}`} className="font-normal">
+                      {BACKUP_SECTION_LABELS[section]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-1">
+              <Label htmlFor="export-encrypt">Encrypt with a passphrase</Label>
+              <p className="text-xs text-muted-foreground">Saves a .skilllead file that only opens with the passphrase.</p>
+            </div>
+            <Switch id="export-encrypt" checked={encrypt} onCheckedChange={setEncrypt} />
+          </div>
+
+          {encrypt && (
+            <div className="space-y-2">
+              <div className="relative">
+                <Input
+                  type={showPassphrase ? 'text' : 'password'}
+                  placeholder="Passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3"
+                  onClick={() => setShowPassphrase(!showPassphrase)}
+                >
+                  {showPassphrase ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </Button>
+              </div>
+              <Input
+                type={showPassphrase ? 'text' : 'password'}
+                placeholder="Confirm passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+              />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={close} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting || (exportScope === 'user' && sections.length === 0)}>
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { Upload, FileWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { importData, previewImport } from '@/lib/db';
+import {
+  BACKUP_SECTIONS,
+  BACKUP_SECTION_LABELS,
+  BACKUP_TABLES,
+  BACKUP_TABLE_LABELS,
+  describeRejectedRecords,
+  type BackupData,
+  type BackupSection,
+  type DuplicateUserStrategy,
+  type ImportMode,
+  type ImportPreview,
+  type ImportReport,
+  type UserMergeAction
+} from '@/lib/backup';
+import { toast } from '@/hooks/use-toast';
+
+export interface PendingImport {
+  fileName: string;
+  data: BackupData;
+  report: ImportReport;
+  sections: BackupSection[];
+}
+
+interface ImportDialogProps {
+  pending: PendingImport | null;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const MODES: Array<{ value: ImportMode; label: string; description: string }> = [
+  {
+    value: 'merge',
+    label: 'Merge with my data',
+    description: "Add the backup's profiles next to yours. Records get new ids, so nothing local is overwritten."
+  },
+  {
+    value: 'replace',
+    label: 'Replace everything',
+    description: 'Delete all local data and restore the backup exactly as it was exported.'
+  }
+];
+
+const describeUserAction = (user: UserMergeAction) => {
+  switch (user.action) {
+    case 'replace':
+      return 'Backup copy is newer and replaces yours';
+    case 'skip':
+      return 'Your copy is newer, so the backup copy is skipped';
+    case 'add':
+      if (user.passphraseChanged) {
+        return `Backup copy is newer but uses a different passphrase, so it's imported as "${user.renamedTo}"`;
+      }
+      return user.duplicateOf !== undefined
+        ? `Imported as "${user.renamedTo}"`
+        : `A different person with this name, imported as "${user.renamedTo}"`;
+  }
+};
+
+// Choose how a validated backup is imported, with a dry-run preview of what changes
+const ImportDialog: React.FC<ImportDialogProps> = ({ pending, onClose, onImported }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [duplicateUsers, setDuplicateUsers] = useState<DuplicateUserStrategy>('keep-newer');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!pending) return;
+
+    setPreview(null);
+    previewImport(pending.data, { mode, duplicateUsers, sections: pending.sections })
+      .then(setPreview)
+      .catch(error => console.error('Failed to preview import:', error));
+  }, [pending, mode, duplicateUsers]);
+
+  const handleImport = async () => {
+    if (!pending) return;
+
+    setImporting(true);
+    try {
+      await importData(pending.data, { mode, duplicateUsers, sections: pending.sections });
+      toast({
+        title: "Data Imported",
+        description: "Your data has been imported successfully. Please refresh the page."
+      });
+      onImported();
+    } catch (error) {
+      console.error('Import failed:', error);
+      toast({
+        title: "Import Failed",
+        description: "Your data was not changed. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const duplicates = preview?.users.filter(user => user.duplicateOf !== undefined) ?? [];
+  const renamed = preview?.users.filter(user => user.duplicateOf === undefined && user.renamedTo) ?? [];
+  const rows = preview
+    ? BACKUP_TABLES.filter(table => preview.added[table] + preview.removed[table] + preview.skipped[table] > 0)
+    : [];
+  const rejected = pending ? describeRejectedRecords(pending.report) : [];
+  const partial = pending && pending.sections.length < BACKUP_SECTIONS.length;
+
+  return (
+    <Dialog open={!!pending} onOpenChange={(open) => !open && !importing && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Backup</DialogTitle>
+          <DialogDescription>
+            {pending?.fileName}
+            {pending && pending.report.fromVersion < pending.report.toVersion &&
+              ` · upgraded from schema version ${pending.report.fromVersion} to ${pending.report.toVersion}`}
+            {partial && ` · contains ${pending.sections.map(section => BACKUP_SECTION_LABELS[section]).join(', ')} only`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+            {MODES.map(option => (
+              <Label
+                key={option.value}
+                htmlFor={`import-mode-${option.value}`}
+                className="flex items-start space-x-3 rounded-md border border-border/50 p-3 cursor-pointer font-normal"
+              >
+                <RadioGroupItem value={option.value} id={`import-mode-${option.value}`} className="mt-0.5" />
+                <div className="space-y-1">
+                  <p className="font-medium">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </div>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          {mode === 'merge' && duplicates.length > 0 && (
+            <div className="space-y-2">
+              <Label>Users that already exist here</Label>
+              <Select value={duplicateUsers} onValueChange={(value) => setDuplicateUsers(value as DuplicateUserStrategy)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="keep-newer">Keep the newer copy</SelectItem>
+                  <SelectItem value="keep-both">Keep both</SelectItem>
+                </SelectContent>
+              </Select>
+              {duplicates.map(user => (
+                <p key={user.backupUserId} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{user.name}:</span> {describeUserAction(user)}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {mode === 'merge' && renamed.length > 0 && (
+            <div className="space-y-2">
+              <Label>New users with a name already in use</Label>
+              {renamed.map(user => (
+                <p key={user.backupUserId} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground">{user.name}:</span> {describeUserAction(user)}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Preview</Label>
+            {!preview ? (
+              <p className="text-sm text-muted-foreground">Checking what would change...</p>
+            ) : rows.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This backup has nothing to import.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Records</TableHead>
+                    <TableHead className="text-right">Added</TableHead>
+                    <TableHead className="text-right">Removed</TableHead>
+                    <TableHead className="text-right">Skipped</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(table => (
+                    <TableRow key={table}>
+                      <TableCell>{BACKUP_TABLE_LABELS[table]}</TableCell>
+                      <TableCell className="text-right">{preview.added[table]}</TableCell>
+                      <TableCell className="text-right">
+                        {preview.removed[table] > 0 ? <Badge variant="destructive">{preview.removed[table]}</Badge> : 0}
+                      </TableCell>
+                      <TableCell className="text-right">{preview.skipped[table]}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {rejected.length > 0 && (
+            <Alert>
+              <FileWarning className="w-4 h-4" />
+              <AlertDescription className="space-y-2">
+                <p className="font-medium">
+                  {rejected.length} record{rejected.length === 1 ? '' : 's'} failed validation and will not be imported:
+                </p>
+                <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-muted-foreground">
+                  {rejected.map((line, index) => (
+                    <li key={index}>{line}</li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            Your current data is saved before importing, so you can undo the import from Data Management.
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onClose} disabled={importing}>
+            Cancel
+          </Button>
+          <Button
+            variant={mode === 'replace' ? 'destructive' : 'default'}
+            onClick={handleImport}
+            disabled={importing || !preview}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {importing ? 'Importing...' : mode === 'replace' ? 'Replace My Data' : 'Merge Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, GitFork, RotateCcw, Eye, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useAuthStore, useProfileStore } from '@/lib/stores';
+import {
+  PROMPTS,
+  PROMPT_VARIABLES,
+  buildPromptVariables,
+  findUnknownVariables,
+  getPromptVersion,
+  renderPrompt,
+  revertPrompt,
+  savePromptOverride,
+  type PromptId
+} from '@/lib/prompts';
+import { toast } from '@/hooks/use-toast';
+
+// Advanced editor for forking the built-in system prompts
+const PromptEditor: React.FC = () => {
+  const { currentUser } = useAuthStore();
+  const { profile, profileType } = useProfileStore();
+  const [promptId, setPromptId] = useState<PromptId>('analysis-system');
+  const [draft, setDraft] = useState<string | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const prompt = PROMPTS[promptId];
+  const override = currentUser?.promptOverrides?.[promptId];
+  const isEditing = draft !== null;
+  const template = draft ?? override?.template ?? prompt.template;
+  const unknownVariables = findUnknownVariables(template);
+
+  // Start each prompt from its saved state
+  useEffect(() => {
+    setDraft(null);
+    setShowPreview(false);
+  }, [promptId]);
+
+  const handleFork = () => {
+    setDraft(override?.template ?? prompt.template);
+  };
+
+  const handleSave = async () => {
+    if (!draft?.trim()) {
+      toast({
+        title: "Prompt Required",
+        description: "The prompt can't be empty. Revert to use the built-in prompt instead.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await savePromptOverride(promptId, draft);
+      setDraft(null);
+      toast({
+        title: "Prompt Saved",
+        description: `Your version of the ${prompt.label} prompt will be used from now on.`
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: "Failed to save the prompt. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRevert = async () => {
+    if (!confirm(`Discard your version of the ${prompt.label} prompt and use the built-in one?`)) return;
+
+    try {
+      await revertPrompt(promptId);
+      setDraft(null);
+      toast({
+        title: "Prompt Reverted",
+        description: `The built-in ${prompt.label} prompt (v${prompt.version}) is in use again.`
+      });
+    } catch (error) {
+      toast({
+        title: "Revert Failed",
+        description: "Failed to revert the prompt. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileText className="w-5 h-5" />
+          <span>Prompts</span>
+          <Badge variant="outline">Advanced</Badge>
+        </CardTitle>
+        <CardDescription>
+          Fork the instructions sent to the AI, preview them against your profile, or revert to the built-in versions
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="space-y-2">
+            <Label>Prompt</Label>
+            <Select value={promptId} onValueChange={(value: PromptId) => setPromptId(value)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(PROMPTS).map(entry => (
+                  <SelectItem key={entry.id} value={entry.id}>
+                    {entry.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Badge variant={override ? 'default' : 'secondary'}>
+              {override ? 'Custom' : 'Built-in'}
+            </Badge>
+            <span>{getPromptVersion(promptId)}</span>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">{prompt.description}</p>
+
+        {override && override.basedOnVersion < prompt.version && (
+          <Alert>
+            <AlertTriangle className="w-4 h-4" />
+            <AlertDescription>
+              The built-in prompt has been updated to v{prompt.version} since you forked v{override.basedOnVersion}.
+              Revert to pick up the changes.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Textarea
+          value={template}
+          onChange={(e) => setDraft(e.target.value)}
+          readOnly={!isEditing}
+          rows={14}
+          className="font-mono text-xs"
+        />
+
+        <div className="text-xs text-muted-foreground space-y-1">
+          <p>Available variables:</p>
+          <ul className="list-disc pl-4">
+            {PROMPT_VARIABLES.map(variable => (
+              <li key={variable.name}>
+                <code>{`{{${variable.name}}}`}</code> — {variable.description}
+              </li>
+            ))}
+          </ul>
+          {unknownVariables.length > 0 && (
+            <p className="text-destructive">
+              Unknown variables are sent as written: {unknownVariables.map(name => `{{${name}}}`).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {isEditing ? (
+            <>
+              <Button onClick={handleSave}>Save Prompt</Button>
+              <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={handleFork}>
+              <GitFork className="w-4 h-4 mr-2" />
+              {override ? 'Edit' : 'Fork'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setShowPreview(!showPreview)}>
+            <Eye className="w-4 h-4 mr-2" />
+            {showPreview ? 'Hide Preview' : 'Preview'}
+          </Button>
+          {override && (
+            <Button variant="outline" onClick={handleRevert}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Revert to Built-in
+            </Button>
+          )}
+        </div>
+
+        {showPreview && (
+          <div className="space-y-2">
+            <Label>Rendered for your profile</Label>
+            <pre className="whitespace-pre-wrap rounded-md border bg-muted/50 p-3 text-xs">
+              {renderPrompt(template, buildPromptVariables(profile, profileType))}
+            </pre>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PromptEditor;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { Database, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuthStore } from '@/lib/stores';
+import { getCachedResponses, deleteCachedResponse, clearResponseCache, type CachedResponse } from '@/lib/db';
+import { toast } from '@/hooks/use-toast';
+
+const ResponseCachePanel: React.FC = () => {
+  const { currentUser } = useAuthStore();
+  const [entries, setEntries] = useState<CachedResponse[]>([]);
+
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!userId) return;
+
+    const loadEntries = async () => {
+      const cached = await getCachedResponses(userId);
+      const now = Date.now();
+      setEntries(cached.filter(entry => new Date(entry.expiresAt).getTime() > now));
+    };
+
+    loadEntries().catch(error => console.error('Failed to load response cache:', error));
+  }, [currentUser?.id]);
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteCachedResponse(id);
+      setEntries(entries.filter(entry => entry.id !== id));
+    } catch (error) {
+      toast({
+        title: "Delete Failed",
+        description: "Failed to remove the cached analysis. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleClear = async () => {
+    if (!currentUser?.id) return;
+    if (!confirm('Remove all cached analyses? The next analysis will call the AI again.')) return;
+
+    try {
+      await clearResponseCache(currentUser.id);
+      setEntries([]);
+      toast({
+        title: "Cache Cleared",
+        description: "Cached analyses have been removed."
+      });
+    } catch (error) {
+      toast({
+        title: "Clear Failed",
+        description: "Failed to clear the cache. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Database className="w-5 h-5" />
+          <span>Response Cache</span>
+        </CardTitle>
+        <CardDescription>
+          Completed analyses are reused for 7 days while your profile, model and prompt stay the same
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No cached analyses.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead>Prompt</TableHead>
+                <TableHead>Cached</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span>{entry.model}</span>
+                      <Badge variant="secondary">{entry.profileType}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{entry.provider}</p>
+                  </TableCell>
+                  <TableCell className="text-xs">{entry.promptVersion}</TableCell>
+                  <TableCell className="text-xs">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                  <TableCell className="text-xs">{new Date(entry.expiresAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.id!)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Button variant="outline" onClick={handleClear} disabled={entries.length === 0}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Clear Cache
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ResponseCachePanel;
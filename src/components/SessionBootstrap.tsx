@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react';
+import { bootstrapSession } from '@/lib/auth';
+import { toast } from '@/hooks/use-toast';
+
+// Holds the routes back until the signed-in user's profile and latest analysis are loaded
+// from IndexedDB, so pages never mistake a reload for a user with no data
+const SessionBootstrap: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    bootstrapSession()
+      .then((result) => {
+        if (result === 'missing-user') {
+          toast({
+            title: "Profile Not Found",
+            description: "Your profile no longer exists on this device. Please sign in again.",
+            variant: "destructive"
+          });
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to restore session:', error);
+        toast({
+          title: "Session Restore Failed",
+          description: "Your saved data couldn't be loaded. Please sign in again if anything looks missing.",
+          variant: "destructive"
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="flex flex-col items-center space-y-4">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-primary/20 border-t-primary"></div>
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default SessionBootstrap;
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+
+interface TagInputProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: string;
+  id?: string;
+}
+
+// A list of short, unique entries (stack, domains, certifications...) added with Enter or the plus button
+const TagInput: React.FC<TagInputProps> = ({ values, onChange, placeholder, id }) => {
+  const [draft, setDraft] = useState('');
+
+  const add = () => {
+    const value = draft.trim();
+    if (value && !values.includes(value)) {
+      onChange([...values, value]);
+    }
+    setDraft('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          placeholder={placeholder}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), add())}
+        />
+        <Button type="button" onClick={add}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {values.map(value => (
+            <Badge key={value} variant="outline">
+              {value}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-1 h-auto p-0 text-muted-foreground hover:text-foreground"
+                onClick={() => onChange(values.filter(item => item !== value))}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
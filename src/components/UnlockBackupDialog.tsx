@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { decryptBackup, prepareBackup, type EncryptedBackupFile } from '@/lib/backup';
+import type { PendingImport } from '@/components/ImportDialog';
+
+export interface LockedImport {
+  fileName: string;
+  file: EncryptedBackupFile;
+}
+
+interface UnlockBackupDialogProps {
+  locked: LockedImport | null;
+  onClose: () => void;
+  onUnlocked: (pending: PendingImport) => void;
+}
+
+// Asks for the passphrase of an encrypted .skilllead backup before it can be previewed and imported
+const UnlockBackupDialog: React.FC<UnlockBackupDialogProps> = ({ locked, onClose, onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+
+  const close = () => {
+    setPassphrase('');
+    setError('');
+    onClose();
+  };
+
+  const handleUnlock = async () => {
+    if (!locked || !passphrase) return;
+
+    setUnlocking(true);
+    setError('');
+    try {
+      const { data, report, sections } = prepareBackup(await decryptBackup(locked.file, passphrase));
+      setPassphrase('');
+      onUnlocked({ fileName: locked.fileName, data, report, sections });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the backup.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!locked} onOpenChange={(open) => !open && close()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Lock className="w-5 h-5" />
+            <span>Encrypted Backup</span>
+          </DialogTitle>
+          <DialogDescription>
+            {locked?.fileName} is protected. Enter the passphrase it was exported with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+        >
+          <Label htmlFor="backup-passphrase">Passphrase</Label>
+          <Input
+            id="backup-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={close} disabled={unlocking}>
+            Cancel
+          </Button>
+          <Button onClick={handleUnlock} disabled={unlocking || !passphrase}>
+            {unlocking ? 'Decrypting...' : 'Unlock'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UnlockBackupDialog;
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuthStore } from '@/lib/stores';
+import { getActiveProviderSettings } from '@/lib/openai';
+import { getChatThreads, getUsageRecords, type ChatThread } from '@/lib/db';
+import {
+  summarizeUsage,
+  saveMonthlyBudget,
+  startOfMonth,
+  isPricedModel,
+  type UsageSummary,
+  type UsageTotal
+} from '@/lib/usage';
+import { toast } from '@/hooks/use-toast';
+
+const MAX_ROWS = 10;
+
+const formatCost = (costUsd: number) => `$${costUsd.toFixed(costUsd > 0 && costUsd < 1 ? 4 : 2)}`;
+
+const formatTokens = (total: UsageTotal) => (total.promptTokens + total.completionTokens).toLocaleString();
+
+const UsageTable: React.FC<{ label: string; rows: UsageTotal[]; getName: (row: UsageTotal) => string }> = ({
+  label,
+  rows,
+  getName
+}) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">No usage recorded yet.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Requests</TableHead>
+          <TableHead className="text-right">Tokens</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.slice(0, MAX_ROWS).map(row => (
+          <TableRow key={row.key}>
+            <TableCell>{getName(row)}</TableCell>
+            <TableCell className="text-right">{row.requests}</TableCell>
+            <TableCell className="text-right">
+              {row.estimated ? '~' : ''}{formatTokens(row)}
+            </TableCell>
+            <TableCell className="text-right">{formatCost(row.costUsd)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+};
+
+const UsagePanel: React.FC = () => {
+  const { currentUser } = useAuthStore();
+  const providerSettings = currentUser?.providerSettings || getActiveProviderSettings();
+
+  const [summary, setSummary] = useState<UsageSummary | null>(null);
+  const [monthlySpend, setMonthlySpend] = useState(0);
+  const [threadTitles, setThreadTitles] = useState<Map<string, string>>(new Map());
+  const [budgetDraft, setBudgetDraft] = useState(currentUser?.monthlyBudgetUsd?.toString() || '');
+
+  useEffect(() => {
+    const userId = currentUser?.id;
+    if (!userId) return;
+
+    const loadUsage = async () => {
+      const records = await getUsageRecords(userId);
+      const monthStart = startOfMonth();
+      setSummary(summarizeUsage(records));
+      setMonthlySpend(records
+        .filter(record => new Date(record.createdAt) >= monthStart)
+        .reduce((total, record) => total + record.costUsd, 0));
+
+      // Titles are unavailable while the vault is locked
+      const threads = await getChatThreads(userId).catch((): ChatThread[] => []);
+      setThreadTitles(new Map(threads.map(thread => [String(thread.id), thread.title])));
+    };
+
+    loadUsage().catch(error => console.error('Failed to load usage:', error));
+  }, [currentUser?.id]);
+
+  const handleSaveBudget = async () => {
+    const trimmed = budgetDraft.trim();
+    const budget = trimmed ? Number(trimmed) : undefined;
+    if (budget !== undefined && (!Number.isFinite(budget) || budget <= 0)) {
+      toast({
+        title: "Invalid Budget",
+        description: "Enter a positive amount in US dollars, or leave it empty for no limit.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await saveMonthlyBudget(budget);
+      toast({
+        title: budget ? "Budget Saved" : "Budget Removed",
+        description: budget
+          ? `AI requests will be blocked once this month's spend reaches ${formatCost(budget)}.`
+          : "AI requests are no longer limited by spend."
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: "Failed to save your budget. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const budget = currentUser?.monthlyBudgetUsd;
+
+  return (
+    <Card className="glass">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Wallet className="w-5 h-5" />
+          <span>Usage & Costs</span>
+        </CardTitle>
+        <CardDescription>
+          Estimated spend from your AI requests, based on published model prices
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">This month</span>
+            <span>
+              {formatCost(monthlySpend)}
+              {budget ? <span className="text-muted-foreground"> of {formatCost(budget)}</span> : null}
+            </span>
+          </div>
+          {budget ? <Progress value={Math.min(100, (monthlySpend / budget) * 100)} /> : null}
+          {!isPricedModel(providerSettings.provider, providerSettings.model) && (
+            <p className="text-xs text-muted-foreground">
+              No price is known for {providerSettings.model}; its requests are recorded at $0.
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="monthly-budget">Monthly Budget (USD)</Label>
+          <div className="flex space-x-2">
+            <Input
+              id="monthly-budget"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="No limit"
+              value={budgetDraft}
+              onChange={(e) => setBudgetDraft(e.target.value)}
+            />
+            <Button onClick={handleSaveBudget} variant="outline">
+              Save Budget
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            New analyses and chat replies are blocked once the month's spend reaches this amount.
+          </p>
+        </div>
+
+        <Separator />
+
+        <Tabs defaultValue="day">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="day">Per Day</TabsTrigger>
+            <TabsTrigger value="analysis">Per Analysis</TabsTrigger>
+            <TabsTrigger value="thread">Per Conversation</TabsTrigger>
+          </TabsList>
+          <TabsContent value="day">
+            <UsageTable label="Day" rows={summary?.byDay || []} getName={row => row.key} />
+          </TabsContent>
+          <TabsContent value="analysis">
+            <UsageTable
+              label="Analysis"
+              rows={summary?.byAnalysis || []}
+              getName={row => `Run #${row.key}${row.firstUsedAt ? ` · ${new Date(row.firstUsedAt).toLocaleDateString()}` : ''}`}
+            />
+          </TabsContent>
+          <TabsContent value="thread">
+            <UsageTable
+              label="Conversation"
+              rows={summary?.byThread || []}
+              getName={row => threadTitles.get(row.key) || `Conversation #${row.key}`}
+            />
+          </TabsContent>
+        </Tabs>
+
+        {summary?.total.estimated && (
+          <p className="text-xs text-muted-foreground">
+            ~ Token counts estimated locally where the provider did not report usage.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UsagePanel;
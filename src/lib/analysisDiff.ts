@@ -0,0 +1,75 @@
+import type { CareerAnalysis } from './db';
+
+// Structured comparison of two analysis versions
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface PlanChange {
+  slot: 'A' | 'B' | 'C';
+  before: string;
+  after: string;
+}
+
+export interface AnalysisDiff {
+  plans: PlanChange[];
+  fitScore: { before: number; after: number; delta: number } | null;
+  skills: ListDiff;
+  resources: ListDiff;
+  milestones: ListDiff;
+  summaryChanged: boolean;
+}
+
+// Case-insensitive, keeping the wording of whichever version has the item
+const diffLists = (before: string[], after: string[]): ListDiff => {
+  const normalize = (item: string) => item.trim().toLowerCase();
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  const unique = (items: string[]) => [...new Map(items.map(item => [normalize(item), item])).values()];
+
+  return {
+    added: unique(after.filter(item => !beforeKeys.has(normalize(item)))),
+    removed: unique(before.filter(item => !afterKeys.has(normalize(item))))
+  };
+};
+
+const skillNames = (analysis: CareerAnalysis) => [
+  ...(analysis.roadmap?.skillsToLearn || []).map(skill => skill.name),
+  ...(analysis.planADeepDive?.competencies?.core || []),
+  ...(analysis.planADeepDive?.competencies?.supporting || [])
+];
+
+const resourceNames = (analysis: CareerAnalysis) => (analysis.roadmap?.coursesAndResources || []).map(resource => resource.name);
+
+const milestoneNames = (analysis: CareerAnalysis) => {
+  const timeline = analysis.planADeepDive?.timeline;
+  return [...(timeline?.month0_3 || []), ...(timeline?.month3_6 || []), ...(timeline?.month6_12 || [])];
+};
+
+export const diffAnalyses = (before: CareerAnalysis, after: CareerAnalysis): AnalysisDiff => {
+  const plans = (['A', 'B', 'C'] as const)
+    .filter(slot => before.plans?.[slot]?.title !== after.plans?.[slot]?.title)
+    .map(slot => ({ slot, before: before.plans?.[slot]?.title || '', after: after.plans?.[slot]?.title || '' }));
+
+  const beforeScore = before.plans?.A?.fitScore;
+  const afterScore = after.plans?.A?.fitScore;
+
+  return {
+    plans,
+    fitScore: beforeScore !== undefined && afterScore !== undefined && beforeScore !== afterScore
+      ? { before: beforeScore, after: afterScore, delta: afterScore - beforeScore }
+      : null,
+    skills: diffLists(skillNames(before), skillNames(after)),
+    resources: diffLists(resourceNames(before), resourceNames(after)),
+    milestones: diffLists(milestoneNames(before), milestoneNames(after)),
+    summaryChanged: before.summary !== after.summary
+  };
+};
+
+export const isEmptyDiff = (diff: AnalysisDiff): boolean => {
+  const lists = [diff.skills, diff.resources, diff.milestones];
+  return diff.plans.length === 0 && !diff.fitScore && !diff.summaryChanged &&
+    lists.every(list => list.added.length === 0 && list.removed.length === 0);
+};
@@ -0,0 +1,336 @@
+import type { z } from 'zod';
+import { callOpenAI, getActiveProviderSettings, type OpenAIMessage } from './openai';
+import { buildPromptVariables, resolvePrompt } from './prompts';
+import { ANALYSIS_CACHE_TTL_MS, getAnalysisCacheKey } from './responseCache';
+import type { ProviderSettings } from './providers';
+import {
+  AnalysisValidationError,
+  careerAnalysisSchema,
+  clarificationSchema,
+  deepDiveStageSchema,
+  formatSchemaIssues,
+  opportunitiesSchema,
+  parseWithSchema,
+  plansStageSchema,
+  profileUnderstandingSchema,
+  roadmapStageSchema,
+  type AnalysisContent
+} from './analysisSchema';
+import {
+  clearAnalysisRuns,
+  getCachedResponse,
+  getResumableAnalysisRun,
+  saveAnalysisRun,
+  saveCachedResponse,
+  type AnalysisRun,
+  type ClarificationAnswer,
+  type StudentProfile,
+  type ProfessionalProfile
+} from './db';
+
+export type AnalysisStageId = 'understanding' | 'clarifying' | 'exploring' | 'planning' | 'deep-dive' | 'roadmap';
+
+interface AnalysisStage {
+  id: AnalysisStageId;
+  schema: z.ZodTypeAny;
+  instructions: string;
+  responseShape: string;
+}
+
+// Each stage sees the profile plus the results of every earlier stage
+const ANALYSIS_STAGES: AnalysisStage[] = [
+  {
+    id: 'understanding',
+    schema: profileUnderstandingSchema,
+    instructions: 'Summarize who this person is. Identify their strengths, skill gaps, interests and constraints (time, budget, location, remote/on-site, visa, learning style).',
+    responseShape: `{ "summary": string, "strengths": string[], "gaps": string[], "interests": string[], "constraints": string[] }`
+  },
+  {
+    id: 'clarifying',
+    schema: clarificationSchema,
+    instructions: 'Decide whether the profile and any answers already given are clear enough to recommend career paths. If not, set status to "needs_clarification" and list up to 5 precise follow-up questions, only for information that is missing or contradictory and never repeating a question already answered.',
+    responseShape: `{ "status": "complete" | "needs_clarification", "clarifications": string[], "interestsConfirmed": boolean }`
+  },
+  {
+    id: 'exploring',
+    schema: opportunitiesSchema,
+    instructions: 'Explore a diverse set of 5-8 career opportunities that fit this person. Do not bias toward the highest-paying options only.',
+    responseShape: `{ "opportunities": [{ "title": string, "rationale": string, "fit": string }] }`
+  },
+  {
+    id: 'planning',
+    schema: plansStageSchema,
+    instructions: 'Choose three plans from the opportunities. Plan A must be the best fit for their constraints and interests; Plans B and C are credible alternatives.',
+    responseShape: `{ "plans": {
+    "A": { "title": string, "rationale": string, "fitScore": number (0-100), "roles": string[], "industries": string[], "riskFactors": string[], "mitigations": string[] },
+    "B": { "title": string, "rationale": string },
+    "C": { "title": string, "rationale": string }
+  } }`
+  },
+  {
+    id: 'deep-dive',
+    schema: deepDiveStageSchema,
+    instructions: 'Deep dive on Plan A: impact, scope, future demand, market outlook, geographic notes, competencies, certifications, tools, portfolio projects, risks and a milestone timeline.',
+    responseShape: `{ "planADeepDive": {
+    "impact": string, "scope": string, "futureDemand": string, "marketOutlook": string, "geoNotes": string,
+    "competencies": { "core": string[], "supporting": string[], "certifications": string[] },
+    "toolsStack": string[],
+    "portfolio": { "suggestedProjects": string[] },
+    "timeline": { "month0_3": string[], "month3_6": string[], "month6_12": string[] },
+    "risks": string[]
+  } }`
+  },
+  {
+    id: 'roadmap',
+    schema: roadmapStageSchema,
+    instructions: 'Write a concise summary of the analysis and an actionable roadmap for Plan A with skills, courses/resources and best places to learn, tailored to their budget and learning style.',
+    responseShape: `{ "summary": string, "roadmap": {
+    "skillsToLearn": [{ "name": string, "level": string }],
+    "coursesAndResources": [{ "name": string, "provider": string, "type": string, "reason": string }],
+    "communitiesAndEvents": string[],
+    "interviewPrepTopics": string[],
+    "nextActions": string[]
+  } }`
+  }
+];
+
+// Re-prompts allowed when the model's JSON fails validation
+const MAX_JSON_REPAIR_ATTEMPTS = 1;
+
+// After this many rounds of follow-up questions the analysis proceeds with what it has
+const MAX_CLARIFICATION_ROUNDS = 3;
+
+export type AnalysisOutcome =
+  | { status: 'complete'; analysis: AnalysisContent; cacheKey: string; cachedAt?: Date; analysisId?: number }
+  | { status: 'needs_clarification'; questions: string[]; round: number };
+
+export interface AnalysisOptions {
+  // Answers to the questions from the pending clarification round, in order
+  clarificationAnswers?: string[];
+  onProgress?: (stage: AnalysisStageId, progress: number) => void;
+  signal?: AbortSignal;
+  providerSettings?: ProviderSettings;  // Defaults to the user's selected provider
+  regenerate?: boolean;  // Skip the cached result for identical inputs
+}
+
+type ClarificationRounds = NonNullable<AnalysisRun['clarificationRounds']>;
+
+const collectAnswers = (rounds: ClarificationRounds): ClarificationAnswer[] => {
+  return rounds.flatMap(round => round.questions.map((question, index) => ({
+    question,
+    answer: round.answers?.[index]?.trim() || '(no answer)'
+  })));
+};
+
+// Request a JSON response and validate it, asking the model to fix its output once if needed
+const requestJson = async <S extends z.ZodTypeAny>(
+  messages: OpenAIMessage[],
+  schema: S,
+  analysisRunId: number | undefined,
+  providerSettings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<z.infer<S>> => {
+  const options = { purpose: 'analysis' as const, analysisRunId, providerSettings, responseFormat: 'json' as const, signal };
+  let response = await callOpenAI(messages, false, undefined, options);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return parseWithSchema(response, schema);
+    } catch (error) {
+      if (!(error instanceof AnalysisValidationError) || attempt >= MAX_JSON_REPAIR_ATTEMPTS) {
+        throw error;
+      }
+
+      response = await callOpenAI([
+        ...messages,
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response did not match the required JSON format:
+${error.issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the corrected result as a single JSON object only, with no markdown or commentary.`
+        }
+      ], false, undefined, options);
+    }
+  }
+};
+
+const buildStageMessages = (
+  systemPrompt: string,
+  stage: AnalysisStage,
+  profile: StudentProfile | ProfessionalProfile,
+  profileType: 'student' | 'professional',
+  run: AnalysisRun
+): OpenAIMessage[] => {
+  const stepNumber = ANALYSIS_STAGES.indexOf(stage) + 1;
+  const answers = collectAnswers(run.clarificationRounds || []);
+  const findings = Object.keys(run.stages).length > 0
+    ? `\n\nFindings from earlier steps:\n${JSON.stringify(run.stages, null, 2)}`
+    : '';
+  // Notes are the user's own words, so they go in as text rather than buried in the profile JSON
+  const { notes, ...profileData } = profile;
+  const userNotes = notes?.trim() ? `\n\nAdditional notes from the user:\n${notes.trim()}` : '';
+  const answered = answers.length > 0
+    ? `\n\nThe user answered these follow-up questions:\n${answers.map(({ question, answer }) => `Q: ${question}\nA: ${answer}`).join('\n\n')}`
+    : '';
+
+  return [
+    { role: 'system', content: systemPrompt },
+    {
+      role: 'user',
+      content: `Profile Type: ${profileType}
+Profile Data: ${JSON.stringify(profileData, null, 2)}${userNotes}${findings}${answered}
+
+Step ${stepNumber} of ${ANALYSIS_STAGES.length}: ${stage.instructions}
+
+Return only a JSON object with this shape:
+${stage.responseShape}`
+    }
+  ];
+};
+
+// Combine the stage results into the final analysis
+const assembleAnalysis = (run: AnalysisRun): AnalysisContent => {
+  const rounds = run.clarificationRounds || [];
+  const merged = {
+    ...(run.stages.clarifying as object),
+    ...(run.stages.planning as object),
+    ...(run.stages['deep-dive'] as object),
+    ...(run.stages.roadmap as object),
+    status: 'complete',
+    clarifications: rounds.flatMap(round => round.questions)
+  };
+
+  const result = careerAnalysisSchema.safeParse(merged);
+  if (!result.success) {
+    throw new AnalysisValidationError(formatSchemaIssues(result.error));
+  }
+  return {
+    ...result.data,
+    clarificationAnswers: collectAnswers(rounds),
+    promptVersion: run.promptVersion
+  } as AnalysisContent;
+};
+
+// Run the analysis stage by stage, saving each result so a failed run resumes where it stopped.
+// Pauses with the model's follow-up questions when the profile needs clarification.
+export const generateCareerAnalysis = async (
+  userId: number,
+  profile: StudentProfile | ProfessionalProfile,
+  profileType: 'student' | 'professional',
+  { clarificationAnswers, onProgress, signal, providerSettings = getActiveProviderSettings(), regenerate }: AnalysisOptions = {}
+): Promise<AnalysisOutcome> => {
+  const profileUpdatedAt = new Date(profile.updatedAt);
+  const systemPrompt = resolvePrompt('analysis-system', buildPromptVariables(profile, profileType));
+
+  // An unchanged profile with the same model and prompt gets the earlier result back
+  const cacheKey = await getAnalysisCacheKey(userId, providerSettings, systemPrompt.version, profile, profileType);
+  if (!regenerate && !clarificationAnswers) {
+    const cached = await getCachedResponse(userId, cacheKey);
+    if (cached) {
+      return {
+        status: 'complete',
+        analysis: cached.analysis,
+        cacheKey,
+        cachedAt: new Date(cached.createdAt),
+        analysisId: cached.analysisId
+      };
+    }
+  }
+
+  let run = await getResumableAnalysisRun(userId, {
+    provider: providerSettings.provider,
+    model: providerSettings.model,
+    promptVersion: systemPrompt.version,
+    profileType,
+    profileUpdatedAt
+  });
+
+  if (!run) {
+    await clearAnalysisRuns(userId);
+    const now = new Date();
+    run = {
+      userId,
+      provider: providerSettings.provider,
+      model: providerSettings.model,
+      promptVersion: systemPrompt.version,
+      profileType,
+      profileUpdatedAt,
+      stages: {},
+      status: 'running',
+      createdAt: now,
+      updatedAt: now
+    };
+    // Saved up front so usage can be attributed to the run
+    run.id = await saveAnalysisRun(run);
+  }
+
+  // Record answers to the pending round, or keep waiting for them
+  const rounds = run.clarificationRounds || [];
+  const pending = rounds[rounds.length - 1];
+  if (pending && !pending.answers) {
+    if (!clarificationAnswers) {
+      return { status: 'needs_clarification', questions: pending.questions, round: rounds.length };
+    }
+    run = {
+      ...run,
+      clarificationRounds: [...rounds.slice(0, -1), { ...pending, answers: clarificationAnswers }],
+      updatedAt: new Date()
+    };
+    run.id = await saveAnalysisRun(run);
+  }
+
+  for (const [index, stage] of ANALYSIS_STAGES.entries()) {
+    if (run.stages[stage.id] !== undefined) continue;
+
+    onProgress?.(stage.id, (index / ANALYSIS_STAGES.length) * 100);
+
+    try {
+      const result = await requestJson(buildStageMessages(systemPrompt.content, stage, profile, profileType, run), stage.schema, run.id, providerSettings, signal);
+      const roundsSoFar = run.clarificationRounds || [];
+
+      if (
+        stage.id === 'clarifying' &&
+        result.status === 'needs_clarification' &&
+        result.clarifications.length > 0 &&
+        roundsSoFar.length < MAX_CLARIFICATION_ROUNDS
+      ) {
+        // Leave the stage incomplete so it is re-evaluated once the questions are answered
+        run = {
+          ...run,
+          clarificationRounds: [...roundsSoFar, { questions: result.clarifications }],
+          status: 'needs_clarification',
+          error: undefined
+        };
+        return { status: 'needs_clarification', questions: result.clarifications, round: roundsSoFar.length + 1 };
+      }
+
+      run = { ...run, stages: { ...run.stages, [stage.id]: result }, status: 'running', error: undefined };
+    } catch (error) {
+      run = { ...run, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+      throw error;
+    } finally {
+      run.updatedAt = new Date();
+      run.id = await saveAnalysisRun(run);
+    }
+  }
+
+  const analysis = assembleAnalysis(run);
+  await saveAnalysisRun({ ...run, status: 'complete', updatedAt: new Date() });
+
+  const now = new Date();
+  await saveCachedResponse({
+    key: cacheKey,
+    userId,
+    provider: providerSettings.provider,
+    model: providerSettings.model,
+    promptVersion: systemPrompt.version,
+    profileType,
+    analysis,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ANALYSIS_CACHE_TTL_MS)
+  }).catch(error => console.error('Failed to cache analysis:', error));
+  onProgress?.('roadmap', 100);
+  return { status: 'complete', analysis, cacheKey };
+};
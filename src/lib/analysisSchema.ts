@@ -0,0 +1,221 @@
+import { z } from 'zod';
+import type { CareerAnalysis } from './db';
+
+// The part of a CareerAnalysis produced by the model (record metadata is added on save)
+export type AnalysisContent = Omit<CareerAnalysis, 'id' | 'userId' | 'latest' | 'createdAt' | 'updatedAt' | 'version'>;
+
+export class AnalysisValidationError extends Error {
+  constructor(public issues: string[]) {
+    super('The AI returned an analysis in an unexpected format.');
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+// Field helpers: missing or null values fall back to empty defaults
+const text = () => z.string().nullish().transform(value => value ?? '');
+const list = () => z.array(z.string()).nullish().transform(value => value ?? []);
+const section = <T extends z.ZodRawShape>(shape: T) => z.preprocess(value => value ?? {}, z.object(shape));
+
+const planSummarySchema = z.object({
+  title: z.string().min(1),
+  rationale: z.string().min(1)
+});
+
+const plansSchema = z.object({
+  A: planSummarySchema.extend({
+    fitScore: z.preprocess(value => (value == null ? 0 : Number(value)), z.number().min(0).max(100)),
+    roles: list(),
+    industries: list(),
+    riskFactors: list(),
+    mitigations: list()
+  }),
+  B: planSummarySchema,
+  C: planSummarySchema
+});
+
+const deepDiveShape = {
+  impact: text(),
+  scope: text(),
+  futureDemand: text(),
+  marketOutlook: text(),
+  geoNotes: text(),
+  competencies: section({
+    core: list(),
+    supporting: list(),
+    certifications: list()
+  }),
+  toolsStack: list(),
+  portfolio: section({
+    suggestedProjects: list()
+  }),
+  timeline: section({
+    month0_3: list(),
+    month3_6: list(),
+    month6_12: list()
+  }),
+  risks: list()
+};
+
+const roadmapShape = {
+  skillsToLearn: z.array(z.object({
+    name: z.string(),
+    level: text()
+  })).nullish().transform(value => value ?? []),
+  coursesAndResources: z.array(z.object({
+    name: z.string(),
+    provider: text(),
+    type: text(),
+    reason: text()
+  })).nullish().transform(value => value ?? []),
+  communitiesAndEvents: list(),
+  interviewPrepTopics: list(),
+  nextActions: list()
+};
+
+const clarificationShape = {
+  status: z.enum(['needs_clarification', 'analyzing', 'complete']).catch('complete'),
+  clarifications: list(),
+  interestsConfirmed: z.boolean().nullish().transform(value => value ?? true)
+};
+
+export const careerAnalysisSchema = z.object({
+  ...clarificationShape,
+  plans: plansSchema,
+  planADeepDive: section(deepDiveShape),
+  summary: z.string().min(1),
+  roadmap: section(roadmapShape)
+});
+
+// Outputs of the individual analysis pipeline stages
+export const profileUnderstandingSchema = z.object({
+  summary: z.string().min(1),
+  strengths: list(),
+  gaps: list(),
+  interests: list(),
+  constraints: list()
+});
+
+export const clarificationSchema = z.object(clarificationShape);
+
+export const opportunitiesSchema = z.object({
+  opportunities: z.array(z.object({
+    title: z.string().min(1),
+    rationale: text(),
+    fit: text()
+  })).min(3)
+});
+
+export const plansStageSchema = z.object({ plans: plansSchema });
+
+export const deepDiveStageSchema = z.object({ planADeepDive: z.object(deepDiveShape) });
+
+export const roadmapStageSchema = z.object({
+  summary: z.string().min(1),
+  roadmap: z.object(roadmapShape)
+});
+
+// Drop markdown code fences and any prose around the JSON object
+export const stripCodeFences = (raw: string): string => {
+  const fenced = raw.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/i);
+  const body = fenced ? fenced[1] : raw;
+  const start = body.indexOf('{');
+  return start === -1 ? body.trim() : body.slice(start).trim();
+};
+
+// Drop commas before a closing bracket, leaving string values untouched
+const removeTrailingCommas = (json: string) => {
+  const closesNext = /\s*[}\]]/y;
+  let result = '';
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      closesNext.lastIndex = i + 1;
+      if (closesNext.test(json)) continue;
+    }
+    result += char;
+  }
+  return result;
+};
+
+// Close strings and brackets left open by a truncated response
+const closeTruncatedJson = (json: string): string[] => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let lastComma = -1;
+  let stackAtComma: string[] = [];
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+
+    if (char === '"') inString = true;
+    else if (char === '{') stack.push('}');
+    else if (char === '[') stack.push(']');
+    else if (char === '}' || char === ']') stack.pop();
+    else if (char === ',') {
+      lastComma = i;
+      stackAtComma = [...stack];
+    }
+  }
+
+  const closers = (open: string[]) => [...open].reverse().join('');
+  let tail = escaped ? json.slice(0, -1) : json;
+  if (inString) tail += '"';
+  tail = tail.replace(/[,:]\s*$/, '');
+
+  const candidates = [tail + closers(stack)];
+  // If the value being written was cut off, drop it entirely
+  if (lastComma !== -1) {
+    candidates.push(json.slice(0, lastComma) + closers(stackAtComma));
+  }
+  return candidates;
+};
+
+// Parse model output that should be JSON, repairing common formatting mistakes
+export const parseJsonResponse = (raw: string): unknown => {
+  const json = stripCodeFences(raw);
+  const end = json.lastIndexOf('}');
+  const candidates = [
+    json,
+    end === -1 ? json : json.slice(0, end + 1),
+    ...closeTruncatedJson(json)
+  ];
+
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(removeTrailingCommas(candidate));
+    } catch (error) {
+      // Try the next repair
+    }
+  }
+
+  throw new AnalysisValidationError(['Response is not valid JSON.']);
+};
+
+export const formatSchemaIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`);
+};
+
+// Parse and validate a model response against a schema
+export const parseWithSchema = <S extends z.ZodTypeAny>(raw: string, schema: S): z.infer<S> => {
+  const result = schema.safeParse(parseJsonResponse(raw));
+  if (!result.success) {
+    throw new AnalysisValidationError(formatSchemaIssues(result.error));
+  }
+  return result.data;
+};
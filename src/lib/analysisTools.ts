@@ -0,0 +1,334 @@
+import { z } from 'zod';
+import type { ToolCall, ToolDefinition } from './providers';
+import { formatSchemaIssues } from './analysisSchema';
+import {
+  saveAnalysis,
+  saveProfile,
+  type CareerAnalysis,
+  type ProfilePreferences,
+  type StudentProfile,
+  type ProfessionalProfile
+} from './db';
+
+// Tools the chat assistant can call to revise the saved analysis.
+// Calls are only proposals: the user reviews them as a diff, and accepting saves a new analysis version.
+
+const stringList = (description: string) => ({ type: 'array', items: { type: 'string' }, description });
+
+export const ANALYSIS_TOOLS: ToolDefinition[] = [
+  {
+    name: 'update_timeline',
+    description: "Replace the milestones in one or more phases of Plan A's timeline, e.g. to fit a shorter schedule. Phases left out stay unchanged.",
+    parameters: {
+      type: 'object',
+      properties: {
+        month0_3: stringList('Milestones for months 0-3'),
+        month3_6: stringList('Milestones for months 3-6'),
+        month6_12: stringList('Milestones for months 6-12'),
+        reason: { type: 'string', description: 'Why the timeline changes' }
+      },
+      required: ['reason']
+    }
+  },
+  {
+    name: 'swap_primary_plan',
+    description: 'Make Plan B or Plan C the primary plan (Plan A). The current Plan A takes its place.',
+    parameters: {
+      type: 'object',
+      properties: {
+        plan: { type: 'string', enum: ['B', 'C'], description: 'The plan to promote' },
+        fitScore: { type: 'number', description: 'Fit score from 0 to 100 for the new Plan A' },
+        roles: stringList('Target roles for the new Plan A'),
+        industries: stringList('Industries for the new Plan A'),
+        riskFactors: stringList('Risks of the new Plan A'),
+        mitigations: stringList('How to reduce those risks'),
+        reason: { type: 'string', description: 'Why this plan fits the user better' }
+      },
+      required: ['plan', 'reason']
+    }
+  },
+  {
+    name: 'add_resource',
+    description: 'Add a course or learning resource to the roadmap.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the course or resource' },
+        provider: { type: 'string', description: 'Who offers it, e.g. Coursera' },
+        type: { type: 'string', description: 'Format, e.g. Online course, Book, Bootcamp' },
+        reason: { type: 'string', description: 'Why it helps with Plan A' }
+      },
+      required: ['name', 'reason']
+    }
+  },
+  {
+    name: 'adjust_preferences',
+    description: "Change the user's saved preferences. Only include the fields the user asked to change.",
+    parameters: {
+      type: 'object',
+      properties: {
+        timeline: { type: 'string', enum: ['3-months', '6-months', '12-months'] },
+        budget: { type: 'string', enum: ['free', 'budget-friendly', 'premium'] },
+        remote: { type: 'boolean', description: 'Open to remote work' },
+        relocation: { type: 'boolean', description: 'Open to relocating' },
+        learningStyle: { type: 'string', enum: ['self-paced', 'structured', 'mentored'] },
+        preferredLocations: stringList('Cities, countries or regions the user wants to work in'),
+        reason: { type: 'string', description: 'What the user asked for' }
+      },
+      required: ['reason']
+    }
+  }
+];
+
+const milestones = z.array(z.string().min(1)).optional();
+const reason = z.string().default('');
+
+const toolArgumentSchemas = {
+  update_timeline: z.object({
+    month0_3: milestones,
+    month3_6: milestones,
+    month6_12: milestones,
+    reason
+  }).refine(args => args.month0_3 || args.month3_6 || args.month6_12, 'At least one timeline phase is required'),
+  swap_primary_plan: z.object({
+    plan: z.enum(['B', 'C']),
+    fitScore: z.number().min(0).max(100).optional(),
+    roles: z.array(z.string()).optional(),
+    industries: z.array(z.string()).optional(),
+    riskFactors: z.array(z.string()).optional(),
+    mitigations: z.array(z.string()).optional(),
+    reason
+  }),
+  add_resource: z.object({
+    name: z.string().min(1),
+    provider: z.string().default(''),
+    type: z.string().default(''),
+    reason
+  }),
+  adjust_preferences: z.object({
+    timeline: z.enum(['3-months', '6-months', '12-months']).optional(),
+    budget: z.enum(['free', 'budget-friendly', 'premium']).optional(),
+    remote: z.boolean().optional(),
+    relocation: z.boolean().optional(),
+    learningStyle: z.enum(['self-paced', 'structured', 'mentored']).optional(),
+    preferredLocations: z.array(z.string()).optional(),
+    reason
+  })
+};
+
+export type AnalysisTool = keyof typeof toolArgumentSchemas;
+
+export type AnalysisChange = {
+  [T in AnalysisTool]: { tool: T; args: z.infer<(typeof toolArgumentSchemas)[T]> }
+}[AnalysisTool];
+
+// Changes suggested in one assistant reply, stored on the chat message
+export interface AnalysisProposal {
+  changes: AnalysisChange[];
+  status: 'pending' | 'accepted' | 'rejected';
+  analysisId?: number;  // Version saved when the proposal was accepted
+}
+
+// Validate a tool call from the model; unknown tools and malformed arguments are dropped
+export const parseToolCall = (call: ToolCall): AnalysisChange | null => {
+  if (!(call.name in toolArgumentSchemas)) return null;
+
+  const result = toolArgumentSchemas[call.name as AnalysisTool].safeParse(call.arguments);
+  if (!result.success) {
+    console.warn(`Ignoring ${call.name} tool call:`, formatSchemaIssues(result.error).join('; '));
+    return null;
+  }
+  return { tool: call.name, args: result.data } as AnalysisChange;
+};
+
+export const applyAnalysisChanges = <A extends Omit<CareerAnalysis, 'id' | 'version'>>(analysis: A, changes: AnalysisChange[]): A => {
+  return changes.reduce((current, change) => {
+    switch (change.tool) {
+      case 'update_timeline': {
+        const { timeline } = current.planADeepDive;
+        return {
+          ...current,
+          planADeepDive: {
+            ...current.planADeepDive,
+            timeline: {
+              month0_3: change.args.month0_3 ?? timeline.month0_3,
+              month3_6: change.args.month3_6 ?? timeline.month3_6,
+              month6_12: change.args.month6_12 ?? timeline.month6_12
+            }
+          }
+        };
+      }
+      case 'swap_primary_plan': {
+        const { A } = current.plans;
+        const promoted = current.plans[change.args.plan];
+        return {
+          ...current,
+          plans: {
+            ...current.plans,
+            A: {
+              title: promoted.title,
+              rationale: promoted.rationale,
+              fitScore: change.args.fitScore ?? A.fitScore,
+              roles: change.args.roles ?? [],
+              industries: change.args.industries ?? [],
+              riskFactors: change.args.riskFactors ?? [],
+              mitigations: change.args.mitigations ?? []
+            },
+            [change.args.plan]: { title: A.title, rationale: A.rationale }
+          }
+        };
+      }
+      case 'add_resource': {
+        const { name, provider, type, reason } = change.args;
+        return {
+          ...current,
+          roadmap: {
+            ...current.roadmap,
+            coursesAndResources: [...current.roadmap.coursesAndResources, { name, provider, type, reason }]
+          }
+        };
+      }
+      case 'adjust_preferences':
+        // Preferences live on the profile
+        return current;
+    }
+  }, analysis);
+};
+
+export const applyPreferenceChanges = <P extends StudentProfile | ProfessionalProfile>(profile: P, changes: AnalysisChange[]): P => {
+  return changes.reduce((current, change) => {
+    if (change.tool !== 'adjust_preferences') return current;
+
+    const { preferredLocations, reason, ...preferences } = change.args;
+    const updates = Object.fromEntries(
+      Object.entries(preferences).filter(([, value]) => value !== undefined)
+    ) as Partial<ProfilePreferences>;
+    return {
+      ...current,
+      preferences: { ...current.preferences, ...updates },
+      preferredLocations: preferredLocations ?? current.preferredLocations
+    };
+  }, profile);
+};
+
+export interface ChangeLine {
+  label: string;
+  before?: string;
+  after: string;
+}
+
+export interface ChangeDescription {
+  title: string;
+  reason: string;
+  lines: ChangeLine[];
+}
+
+const PREFERENCE_LABELS: Record<keyof ProfilePreferences | 'preferredLocations', string> = {
+  timeline: 'Timeline',
+  budget: 'Learning budget',
+  remote: 'Open to remote work',
+  relocation: 'Open to relocation',
+  learningStyle: 'Learning style',
+  preferredLocations: 'Preferred locations'
+};
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'None';
+  return String(value ?? '').replace(/-months$/, ' months') || 'None';
+};
+
+// Before/after lines for showing a proposed change against the current analysis and profile
+export const describeChange = (
+  change: AnalysisChange,
+  analysis: CareerAnalysis,
+  profile: StudentProfile | ProfessionalProfile | null
+): ChangeDescription => {
+  switch (change.tool) {
+    case 'update_timeline': {
+      const { timeline } = analysis.planADeepDive;
+      const phases = [
+        { key: 'month0_3', label: 'Months 0-3' },
+        { key: 'month3_6', label: 'Months 3-6' },
+        { key: 'month6_12', label: 'Months 6-12' }
+      ] as const;
+      return {
+        title: 'Update the Plan A timeline',
+        reason: change.args.reason,
+        lines: phases
+          .filter(phase => change.args[phase.key])
+          .map(phase => ({
+            label: phase.label,
+            before: formatValue(timeline[phase.key]),
+            after: formatValue(change.args[phase.key])
+          }))
+      };
+    }
+    case 'swap_primary_plan': {
+      const { A } = analysis.plans;
+      const promoted = analysis.plans[change.args.plan];
+      return {
+        title: `Make Plan ${change.args.plan} your primary plan`,
+        reason: change.args.reason,
+        lines: [
+          { label: 'Plan A', before: A.title, after: promoted.title },
+          { label: `Plan ${change.args.plan}`, before: promoted.title, after: A.title },
+          ...(change.args.fitScore !== undefined
+            ? [{ label: 'Fit score', before: `${A.fitScore}%`, after: `${change.args.fitScore}%` }]
+            : [])
+        ]
+      };
+    }
+    case 'add_resource': {
+      const { name, provider, type } = change.args;
+      return {
+        title: 'Add a learning resource',
+        reason: change.args.reason,
+        lines: [{ label: 'Resource', after: [name, provider, type].filter(Boolean).join(' · ') }]
+      };
+    }
+    case 'adjust_preferences': {
+      const { reason, ...updates } = change.args;
+      const current: Record<string, unknown> = { ...profile?.preferences, preferredLocations: profile?.preferredLocations };
+      return {
+        title: 'Adjust your preferences',
+        reason,
+        lines: (Object.keys(PREFERENCE_LABELS) as Array<keyof typeof PREFERENCE_LABELS>)
+          .filter(key => updates[key] !== undefined)
+          .map(key => ({ label: PREFERENCE_LABELS[key], before: formatValue(current[key]), after: formatValue(updates[key]) }))
+      };
+    }
+  }
+};
+
+// Save an accepted proposal: a new analysis version for plan changes, and the profile for preference changes
+export const acceptAnalysisProposal = async (
+  proposal: AnalysisProposal,
+  analysis: CareerAnalysis,
+  profile: StudentProfile | ProfessionalProfile,
+  profileType: 'student' | 'professional'
+): Promise<{ analysis?: CareerAnalysis; profile?: StudentProfile | ProfessionalProfile }> => {
+  const result: { analysis?: CareerAnalysis; profile?: StudentProfile | ProfessionalProfile } = {};
+
+  if (proposal.changes.some(change => change.tool === 'adjust_preferences')) {
+    const updated = { ...applyPreferenceChanges(profile, proposal.changes), updatedAt: new Date() };
+    await saveProfile(updated, profileType);
+    result.profile = updated;
+  }
+
+  if (proposal.changes.some(change => change.tool !== 'adjust_preferences')) {
+    const { id, version, ...current } = analysis;
+    const now = new Date();
+    result.analysis = await saveAnalysis({
+      ...applyAnalysisChanges(current, proposal.changes),
+      changeNotes: proposal.changes.map(change => describeChange(change, analysis, profile).title),
+      profileType,
+      profileSnapshot: result.profile ?? profile,
+      latest: true,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  return result;
+};
@@ -0,0 +1,193 @@
+import { db, getProfileByUserId, getLatestAnalysis, sealExistingRecords, type LocalUser } from './db';
+import { createPassphraseVerifier, verifyPassphrase } from './crypto';
+import { createVaultSalt, unlockVault, lockVault, isVaultUnlocked, isSealedRecord, opensSealedRecord } from './vault';
+import { useAuthStore, useProfileStore, useAnalysisStore, useChatStore } from './stores';
+
+// Lockout policy for repeated failed sign-ins
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+export const getLockoutRemainingMs = (user: LocalUser): number => {
+  if (!user.lockedUntil) return 0;
+  return Math.max(0, new Date(user.lockedUntil).getTime() - Date.now());
+};
+
+// Lockout doubles with each failure past the free attempts
+const getLockoutDurationMs = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_ATTEMPTS) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS), MAX_LOCKOUT_MS);
+};
+
+export const formatLockout = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Strip credential material before the user is persisted in the auth store
+const toSessionUser = (user: LocalUser): LocalUser => {
+  const { passphraseVerifier, failedSignInAttempts, lockedUntil, ...sessionUser } = user;
+  return sessionUser;
+};
+
+// List local (non-guest) profiles for the sign-in picker
+export const getLocalProfiles = async (): Promise<LocalUser[]> => {
+  const users = await db.users.filter(user => !user.isGuest).toArray();
+  return users.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
+};
+
+export const createLocalUser = async (name: string, passphrase?: string): Promise<LocalUser> => {
+  const now = new Date();
+  const newUser: LocalUser = {
+    name,
+    role: 'student',
+    createdAt: now,
+    updatedAt: now,
+    isGuest: false,
+    passphraseProtected: !!passphrase,
+    passphraseVerifier: passphrase ? await createPassphraseVerifier(passphrase) : undefined,
+    encryptionSalt: passphrase ? createVaultSalt() : undefined,
+    lastSignInAt: now
+  };
+
+  const id = await db.users.add(newUser);
+
+  lockVault();
+  if (passphrase) {
+    await unlockVault(id as number, passphrase, newUser.encryptionSalt!);
+  }
+
+  return toSessionUser({ ...newUser, id });
+};
+
+// Count a failed sign-in, locking the profile out after repeated failures
+const rejectPassphrase = async (user: LocalUser): Promise<never> => {
+  const failedSignInAttempts = (user.failedSignInAttempts || 0) + 1;
+  const lockoutMs = getLockoutDurationMs(failedSignInAttempts);
+  await db.users.update(user.id!, {
+    failedSignInAttempts,
+    lockedUntil: lockoutMs ? new Date(Date.now() + lockoutMs) : undefined
+  });
+
+  throw new Error(lockoutMs
+    ? `Incorrect passphrase. Sign-in is locked for ${formatLockout(lockoutMs)}.`
+    : 'Incorrect passphrase.'
+  );
+};
+
+// Any one of the user's records that is sealed under their passphrase
+const findSealedRecord = async (userId: number) => {
+  const records = await Promise.all([
+    db.studentProfiles.where('userId').equals(userId).filter(isSealedRecord).first(),
+    db.professionalProfiles.where('userId').equals(userId).filter(isSealedRecord).first(),
+    db.analyses.where('userId').equals(userId).filter(isSealedRecord).first(),
+    db.chatThreads.where('userId').equals(userId).filter(isSealedRecord).first()
+  ]);
+  return records.find(record => record !== undefined);
+};
+
+// Verify credentials for an existing local profile, applying lockout/backoff on failure
+export const signInLocalUser = async (userId: number, passphrase = ''): Promise<LocalUser> => {
+  const user = await db.users.get(userId);
+  if (!user) {
+    throw new Error('This profile no longer exists on this device.');
+  }
+
+  if (user.passphraseProtected) {
+    const remaining = getLockoutRemainingMs(user);
+    if (remaining > 0) {
+      throw new Error(`Too many failed attempts. Try again in ${formatLockout(remaining)}.`);
+    }
+    if (!passphrase) {
+      throw new Error('Enter your passphrase.');
+    }
+
+    if (user.passphraseVerifier) {
+      if (!await verifyPassphrase(passphrase, user.passphraseVerifier)) {
+        await rejectPassphrase(user);
+      }
+    } else {
+      // Profiles created before verifiers existed, or imported without one, never stored their passphrase.
+      // Adopt this one only if it opens the user's sealed records; with nothing sealed it can't be checked.
+      const sealed = await findSealedRecord(userId);
+      if (!sealed || !user.encryptionSalt) {
+        throw new Error(
+          "This profile's passphrase can't be checked on this device. " +
+          "Import a backup of it made by a newer version, or create a new profile."
+        );
+      }
+      if (!await opensSealedRecord(sealed, passphrase, user.encryptionSalt)) {
+        await rejectPassphrase(user);
+      }
+      await db.users.update(userId, { passphraseVerifier: await createPassphraseVerifier(passphrase) });
+    }
+  }
+
+  const now = new Date();
+  const encryptionSalt = user.passphraseProtected ? user.encryptionSalt || createVaultSalt() : user.encryptionSalt;
+  await db.users.update(userId, {
+    failedSignInAttempts: 0,
+    lockedUntil: undefined,
+    encryptionSalt,
+    lastSignInAt: now,
+    updatedAt: now
+  });
+
+  // Only the signed-in user's records stay decryptable
+  lockVault();
+  if (user.passphraseProtected) {
+    await unlockVault(userId, passphrase, encryptionSalt!);
+    await sealExistingRecords(userId);
+  }
+
+  return toSessionUser({ ...user, encryptionSalt, lastSignInAt: now, updatedAt: now });
+};
+
+// Reset per-user stores and load the user's saved profile and latest analysis
+const clearUserStores = () => {
+  useProfileStore.getState().clearProfile();
+  useAnalysisStore.getState().clearAnalysis();
+  useChatStore.getState().setCurrentThread(null);
+  useChatStore.getState().clearMessages();
+};
+
+export const restoreUserSession = async (user: LocalUser) => {
+  clearUserStores();
+
+  const profile = user.id ? await getProfileByUserId(user.id, user.role) : undefined;
+  const analysis = user.id ? await getLatestAnalysis(user.id) : undefined;
+
+  if (profile) {
+    useProfileStore.getState().setProfile(profile, user.role);
+  }
+  if (analysis) {
+    useAnalysisStore.getState().setAnalysis(analysis);
+  }
+  useAuthStore.getState().setCurrentUser(user);
+
+  return { profile, analysis };
+};
+
+export type BootstrapResult = 'signed-out' | 'restored' | 'locked' | 'missing-user';
+
+// On app start, reload the persisted user's profile and latest analysis, which only live in memory
+export const bootstrapSession = async (): Promise<BootstrapResult> => {
+  const { currentUser, isAuthenticated } = useAuthStore.getState();
+  if (!isAuthenticated || !currentUser?.id) return 'signed-out';
+
+  const user = await db.users.get(currentUser.id);
+  if (!user) {
+    // Deleted in another tab, or the local data was cleared or replaced
+    clearUserStores();
+    useAuthStore.getState().logout();
+    return 'missing-user';
+  }
+
+  // Protected profiles sign in again before their records can be read
+  if (user.passphraseProtected && !isVaultUnlocked(user.id!)) return 'locked';
+
+  await restoreUserSession(toSessionUser(user));
+  return 'restored';
+};
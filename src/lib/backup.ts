@@ -0,0 +1,484 @@
+import { z } from 'zod';
+import { careerAnalysisSchema } from './analysisSchema';
+import { isSealedRecord } from './vault';
+import { encryptString, decryptString, isEncryptedPayload, type EncryptedPayload } from './crypto';
+import { CURRENT_SCHEMA_VERSION, upgradeBackupTables } from './migrations';
+import type {
+  LocalUser,
+  StudentProfile,
+  ProfessionalProfile,
+  CareerAnalysis,
+  ChatThread,
+  ChatMessage,
+  UsageRecord,
+  AppSettings
+} from './db';
+
+// Backup files: stamped with the schema version they were exported at, upgraded through the declared
+// migrations on import, then validated record by record so one bad row doesn't abort the whole import.
+
+export const BACKUP_FORMAT = 'skilllead-backup';
+export const ENCRYPTED_BACKUP_FORMAT = 'skilllead-encrypted-backup';
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export interface BackupData {
+  users: LocalUser[];
+  studentProfiles: StudentProfile[];
+  professionalProfiles: ProfessionalProfile[];
+  analyses: CareerAnalysis[];
+  chatThreads: ChatThread[];
+  chatMessages: ChatMessage[];
+  usageRecords: UsageRecord[];
+  settings: AppSettings[];
+}
+
+export type BackupTable = keyof BackupData;
+
+// Parts of a user's data that can be exported on their own
+export const BACKUP_SECTIONS = ['profile', 'analyses', 'chats', 'usage'] as const;
+
+export type BackupSection = (typeof BACKUP_SECTIONS)[number];
+
+export const BACKUP_SECTION_LABELS: Record<BackupSection, string> = {
+  profile: 'Profile',
+  analyses: 'Analyses',
+  chats: 'Chat history',
+  usage: 'Usage history'
+};
+
+export const SECTION_TABLES: Record<BackupSection, BackupTable[]> = {
+  profile: ['studentProfiles', 'professionalProfiles'],
+  analyses: ['analyses'],
+  chats: ['chatThreads', 'chatMessages'],
+  usage: ['usageRecords']
+};
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exported: string;
+  sections?: BackupSection[];  // Missing in full backups, which contain every section
+  data: BackupData;
+}
+
+// A backup file encrypted with a passphrase, saved with the .skilllead extension
+export interface EncryptedBackupFile {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  payload: EncryptedPayload;
+}
+
+export interface RejectedRecord {
+  table: BackupTable;
+  index: number;  // Position in the backup file's table
+  id?: number;
+  reasons: string[];
+}
+
+export interface ImportReport {
+  fromVersion: number;
+  toVersion: number;
+  valid: Record<BackupTable, number>;
+  rejected: RejectedRecord[];
+}
+
+// Replace wipes local data first; merge adds the backup's users next to the local ones under new ids
+export type ImportMode = 'replace' | 'merge';
+
+// When a backup user has the same name as a local user
+export type DuplicateUserStrategy = 'keep-newer' | 'keep-both';
+
+export interface ImportOptions {
+  mode: ImportMode;
+  duplicateUsers: DuplicateUserStrategy;
+  sections: BackupSection[];  // A newer backup copy of a user only replaces these parts of the local one
+}
+
+// What a merge does with one user from the backup
+export interface UserMergeAction {
+  backupUserId: number;
+  name: string;
+  action: 'add' | 'replace' | 'skip';
+  duplicateOf?: number;  // The same user on this device
+  renamedTo?: string;
+  passphraseChanged?: boolean;  // Added instead of replacing, as the two copies use different passphrases
+}
+
+// Dry-run counts for an import, per table
+export interface ImportPreview {
+  added: Record<BackupTable, number>;
+  removed: Record<BackupTable, number>;
+  skipped: Record<BackupTable, number>;
+  users: UserMergeAction[];
+}
+
+export const BACKUP_TABLE_LABELS: Record<BackupTable, string> = {
+  users: 'Users',
+  studentProfiles: 'Student profiles',
+  professionalProfiles: 'Professional profiles',
+  analyses: 'Analyses',
+  chatThreads: 'Chat threads',
+  chatMessages: 'Chat messages',
+  usageRecords: 'Usage records',
+  settings: 'Settings'
+};
+
+const RECORD_LABELS: Record<BackupTable, string> = {
+  users: 'User',
+  studentProfiles: 'Student profile',
+  professionalProfiles: 'Professional profile',
+  analyses: 'Analysis',
+  chatThreads: 'Chat thread',
+  chatMessages: 'Chat message',
+  usageRecords: 'Usage record',
+  settings: 'Settings'
+};
+
+// Backups made before schemaVersion was stamped only carry `version: 1`
+const backupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT).optional(),
+  schemaVersion: z.number().int().positive().optional(),
+  version: z.number().int().positive().optional(),
+  exported: z.string().optional(),
+  sections: z.array(z.enum(BACKUP_SECTIONS)).optional(),
+  data: z.record(z.array(z.unknown()))
+});
+
+// JSON turns dates into strings; restore them so date indexes sort correctly
+const date = z.coerce.date();
+const id = z.number().int().positive();
+const list = z.array(z.string()).default([]);
+
+const profileFields = {
+  id,
+  userId: id,
+  status: z.enum(['draft', 'confirmed']),
+  updatedAt: date
+};
+
+const analysisFields = {
+  id,
+  userId: id,
+  status: z.enum(['needs_clarification', 'analyzing', 'complete']),
+  latest: z.boolean(),
+  createdAt: date,
+  updatedAt: date,
+  version: z.number().int().positive()
+};
+
+const threadFields = {
+  id,
+  userId: id,
+  title: z.string(),
+  createdAt: date,
+  updatedAt: date.optional(),
+  archived: z.boolean().optional(),
+  contextRefs: list
+};
+
+const messageFields = {
+  id,
+  threadId: id,
+  role: z.enum(['user', 'assistant']),
+  createdAt: date
+};
+
+const preferencesSchema = z.object({
+  timeline: z.enum(['3-months', '6-months', '12-months']),
+  budget: z.enum(['free', 'budget-friendly', 'premium']),
+  remote: z.boolean(),
+  relocation: z.boolean(),
+  learningStyle: z.enum(['self-paced', 'structured', 'mentored'])
+}).passthrough();
+
+const skillsSchema = z.array(z.object({ name: z.string(), level: z.string() }).passthrough()).default([]);
+
+// Sealed records only expose their plaintext fields, so they are checked against `sealed` instead of `open`
+const recordSchemas: Record<BackupTable, { open: z.ZodTypeAny; sealed?: z.ZodTypeAny }> = {
+  users: {
+    open: z.object({
+      id,
+      name: z.string().min(1),
+      role: z.enum(['student', 'professional']),
+      createdAt: date,
+      updatedAt: date,
+      isGuest: z.boolean(),
+      passphraseProtected: z.boolean().default(false),
+      lockedUntil: date.optional(),
+      lastSignInAt: date.optional()
+    }).passthrough()
+  },
+  studentProfiles: {
+    open: z.object({
+      ...profileFields,
+      education: z.array(z.object({}).passthrough()).default([]),
+      projects: z.array(z.object({}).passthrough()).default([]),
+      internships: z.array(z.object({}).passthrough()).default([]),
+      skills: skillsSchema,
+      interests: list,
+      preferredLocations: list,
+      preferences: preferencesSchema,
+      notes: z.string().optional()
+    }).passthrough(),
+    sealed: z.object(profileFields).passthrough()
+  },
+  professionalProfiles: {
+    open: z.object({
+      ...profileFields,
+      company: z.string().default(''),
+      role: z.string().default(''),
+      yearsExperience: z.number().nonnegative().default(0),
+      domains: list,
+      projects: z.array(z.object({}).passthrough()).default([]),
+      stack: list,
+      certifications: list,
+      skills: skillsSchema,
+      desiredRoles: list,
+      preferredLocations: list,
+      preferences: preferencesSchema,
+      notes: z.string().optional()
+    }).passthrough(),
+    sealed: z.object(profileFields).passthrough()
+  },
+  analyses: {
+    open: careerAnalysisSchema.extend(analysisFields).passthrough(),
+    sealed: z.object(analysisFields).passthrough()
+  },
+  chatThreads: {
+    open: z.object(threadFields).passthrough(),
+    sealed: z.object(threadFields).passthrough()
+  },
+  chatMessages: {
+    open: z.object({ ...messageFields, content: z.string() }).passthrough(),
+    sealed: z.object(messageFields).passthrough()
+  },
+  usageRecords: {
+    open: z.object({
+      id,
+      userId: id,
+      purpose: z.enum(['analysis', 'chat', 'test']),
+      provider: z.string(),
+      model: z.string(),
+      promptTokens: z.number().nonnegative(),
+      completionTokens: z.number().nonnegative(),
+      estimated: z.boolean().default(false),
+      costUsd: z.number().nonnegative(),
+      latencyMs: z.number().nonnegative(),
+      threadId: id.optional(),
+      analysisRunId: id.optional(),
+      createdAt: date
+    }).passthrough()
+  },
+  settings: {
+    open: z.object({
+      id,
+      openaiKeyStored: z.enum(['session', 'encrypted_local', 'none']),
+      reduceMotion: z.boolean(),
+      theme: z.enum(['light', 'dark', 'system']),
+      locale: z.string(),
+      updatedAt: date
+    }).passthrough()
+  }
+};
+
+export const BACKUP_TABLES = Object.keys(recordSchemas) as BackupTable[];
+
+type StoredRecord = Record<string, unknown> & { id: number };
+
+const formatIssues = (error: z.ZodError): string[] => {
+  return error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+};
+
+const recordId = (record: unknown) => {
+  const value = record && typeof record === 'object' ? (record as { id?: unknown }).id : undefined;
+  return typeof value === 'number' ? value : undefined;
+};
+
+// Upgrade a parsed backup file to the current schema and keep only the records that pass validation
+export const prepareBackup = (raw: unknown): { data: BackupData; report: ImportReport; sections: BackupSection[] } => {
+  const file = backupFileSchema.safeParse(raw);
+  if (!file.success) {
+    throw new BackupFormatError('This file is not a SkillLead backup.');
+  }
+
+  const fromVersion = file.data.schemaVersion ?? file.data.version ?? 1;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new BackupFormatError('This backup was made by a newer version of SkillLead. Update the app to import it.');
+  }
+
+  const tables = upgradeBackupTables(file.data.data, fromVersion);
+  const rejected: RejectedRecord[] = [];
+  const reject = (table: BackupTable, index: number, record: unknown, reasons: string[]) => {
+    rejected.push({ table, index, id: recordId(record), reasons });
+  };
+
+  // Valid records with their position in the file, for the report
+  const accepted = {} as Record<BackupTable, Array<{ record: StoredRecord; index: number }>>;
+  for (const table of BACKUP_TABLES) {
+    const seen = new Set<number>();
+    const { open, sealed } = recordSchemas[table];
+
+    accepted[table] = (tables[table] || []).flatMap((record, index) => {
+      const schema = sealed && isSealedRecord(record) ? sealed : open;
+      const result = schema.safeParse(record);
+      if (!result.success) {
+        reject(table, index, record, formatIssues(result.error));
+        return [];
+      }
+      // Duplicate ids would make the whole import fail
+      const parsed = result.data as StoredRecord;
+      if (seen.has(parsed.id)) {
+        reject(table, index, record, [`Duplicate id ${parsed.id}`]);
+        return [];
+      }
+      seen.add(parsed.id);
+      return [{ record: parsed, index }];
+    });
+  }
+
+  // Drop records whose owner didn't make it into the backup
+  const keepOwned = (table: BackupTable, field: 'userId' | 'threadId', ownerIds: Set<number>, owner: string) => {
+    accepted[table] = accepted[table].filter(({ record, index }) => {
+      const ownerId = record[field] as number;
+      if (ownerIds.has(ownerId)) return true;
+      reject(table, index, record, [`${owner} ${ownerId} is not in the backup`]);
+      return false;
+    });
+  };
+
+  const userIds = new Set(accepted.users.map(({ record }) => record.id));
+  for (const table of ['studentProfiles', 'professionalProfiles', 'analyses', 'chatThreads', 'usageRecords'] as const) {
+    keepOwned(table, 'userId', userIds, 'User');
+  }
+  keepOwned('chatMessages', 'threadId', new Set(accepted.chatThreads.map(({ record }) => record.id)), 'Chat thread');
+
+  const data = Object.fromEntries(BACKUP_TABLES.map(table => [table, accepted[table].map(({ record }) => record)]));
+  const valid = Object.fromEntries(BACKUP_TABLES.map(table => [table, accepted[table].length])) as Record<BackupTable, number>;
+  rejected.sort((a, b) => BACKUP_TABLES.indexOf(a.table) - BACKUP_TABLES.indexOf(b.table) || a.index - b.index);
+
+  return {
+    data: data as unknown as BackupData,
+    report: { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, valid, rejected },
+    sections: file.data.sections ?? [...BACKUP_SECTIONS]
+  };
+};
+
+export const isEncryptedBackup = (raw: unknown): raw is EncryptedBackupFile => {
+  return !!raw && typeof raw === 'object'
+    && (raw as EncryptedBackupFile).format === ENCRYPTED_BACKUP_FORMAT
+    && isEncryptedPayload((raw as EncryptedBackupFile).payload);
+};
+
+export const encryptBackup = async (backup: BackupFile, passphrase: string): Promise<EncryptedBackupFile> => {
+  return { format: ENCRYPTED_BACKUP_FORMAT, payload: await encryptString(JSON.stringify(backup), passphrase) };
+};
+
+// Returns the backup inside, still to be checked with prepareBackup
+export const decryptBackup = async (file: EncryptedBackupFile, passphrase: string): Promise<unknown> => {
+  let plaintext: string;
+  try {
+    plaintext = await decryptString(file.payload, passphrase);
+  } catch {
+    throw new BackupFormatError('Incorrect passphrase, or the backup file is damaged.');
+  }
+  return JSON.parse(plaintext);
+};
+
+// One line per rejected record, e.g. "Chat message #3 (id 12): content: Required"
+export const describeRejectedRecords = (report: ImportReport): string[] => {
+  return report.rejected.map(record => {
+    const where = `${RECORD_LABELS[record.table]} #${record.index + 1}${record.id !== undefined ? ` (id ${record.id})` : ''}`;
+    return `${where}: ${record.reasons.join('; ')}`;
+  });
+};
+
+export const countRecords = (data: BackupData): Record<BackupTable, number> => {
+  return Object.fromEntries(BACKUP_TABLES.map(table => [table, data[table].length])) as Record<BackupTable, number>;
+};
+
+// The records in a backup that belong to the given users; settings aren't owned by anyone
+export const selectUserRecords = (data: BackupData, userIds: Set<number>): BackupData => {
+  const chatThreads = data.chatThreads.filter(thread => userIds.has(thread.userId));
+  const threadIds = new Set(chatThreads.map(thread => thread.id));
+
+  return {
+    users: data.users.filter(user => userIds.has(user.id!)),
+    studentProfiles: data.studentProfiles.filter(profile => userIds.has(profile.userId)),
+    professionalProfiles: data.professionalProfiles.filter(profile => userIds.has(profile.userId)),
+    analyses: data.analyses.filter(analysis => userIds.has(analysis.userId)),
+    chatThreads,
+    chatMessages: data.chatMessages.filter(message => threadIds.has(message.threadId)),
+    usageRecords: data.usageRecords.filter(record => userIds.has(record.userId)),
+    settings: []
+  };
+};
+
+// A user's most recent change across their profiles, analyses and chats.
+// These timestamps stay plaintext on sealed records.
+export const getUserActivity = (
+  user: LocalUser,
+  records: Pick<BackupData, 'studentProfiles' | 'professionalProfiles' | 'analyses' | 'chatThreads'>
+): number => {
+  const owned = <T extends { userId: number }>(rows: T[]) => rows.filter(row => row.userId === user.id);
+  return Math.max(
+    new Date(user.updatedAt).getTime(),
+    ...owned(records.studentProfiles).map(profile => new Date(profile.updatedAt).getTime()),
+    ...owned(records.professionalProfiles).map(profile => new Date(profile.updatedAt).getTime()),
+    ...owned(records.analyses).map(analysis => new Date(analysis.updatedAt).getTime()),
+    ...owned(records.chatThreads).map(thread => new Date(thread.updatedAt ?? thread.createdAt).getTime())
+  );
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// A user's createdAt is set once, to the millisecond, and travels with them through every export and import,
+// so it tells the same user apart from someone else who happens to have the same name
+const isSameUser = (a: LocalUser, b: LocalUser) => new Date(a.createdAt).getTime() === new Date(b.createdAt).getTime();
+
+export const sameCredentials = (a: LocalUser, b: LocalUser) =>
+  !!a.passphraseProtected === !!b.passphraseProtected &&
+  a.encryptionSalt === b.encryptionSalt &&
+  JSON.stringify(a.passphraseVerifier) === JSON.stringify(b.passphraseVerifier);
+
+// Decide what a merge does with each backup user. Users match by createdAt, preferring the same id;
+// guests never match. Someone new who shares a local user's name is added under a distinct name.
+export const planUserMerge = (
+  data: BackupData,
+  localUsers: Array<{ user: LocalUser; lastActivity: number }>,
+  strategy: DuplicateUserStrategy,
+  sections: BackupSection[]
+): UserMergeAction[] => {
+  const matched = new Set<number>();
+
+  return data.users.map((user): UserMergeAction => {
+    const base = { backupUserId: user.id!, name: user.name };
+    const candidates = user.isGuest
+      ? []
+      : localUsers.filter(local => !local.user.isGuest && !matched.has(local.user.id!) && isSameUser(local.user, user));
+    const duplicate = candidates.find(local => local.user.id === user.id) ?? candidates[0];
+    if (!duplicate) {
+      const nameTaken = localUsers.some(local => normalizeName(local.user.name) === normalizeName(user.name));
+      return nameTaken ? { ...base, action: 'add', renamedTo: `${user.name} (imported)` } : { ...base, action: 'add' };
+    }
+
+    matched.add(duplicate.user.id!);
+    const duplicateOf = duplicate.user.id!;
+    if (strategy === 'keep-both') {
+      return { ...base, action: 'add', duplicateOf, renamedTo: `${user.name} (imported)` };
+    }
+    if (getUserActivity(user, data) <= duplicate.lastActivity) {
+      return { ...base, action: 'skip', duplicateOf };
+    }
+    // A partial replace keeps the local records outside its sections, sealed under the local passphrase,
+    // next to backup records sealed under the backup's; that only works when both use the same one
+    if (sections.length < BACKUP_SECTIONS.length && !sameCredentials(user, duplicate.user)) {
+      return { ...base, action: 'add', duplicateOf, renamedTo: `${user.name} (imported)`, passphraseChanged: true };
+    }
+    return { ...base, action: 'replace', duplicateOf };
+  });
+};
@@ -0,0 +1,245 @@
+import { callOpenAI, getActiveProviderSettings, type OpenAIMessage } from './openai';
+import { buildPromptVariables, resolvePrompt } from './prompts';
+import type { ProviderSettings } from './providers';
+import { estimateTokens, estimateMessageTokens, getPromptBudget, truncateToTokens } from './tokens';
+import { LLMCancelledError } from './llmErrors';
+import { ANALYSIS_TOOLS, parseToolCall, type AnalysisChange } from './analysisTools';
+import {
+  getChatThread,
+  saveChatThreadSummary,
+  type CareerAnalysis,
+  type StudentProfile,
+  type ProfessionalProfile
+} from './db';
+
+export interface ChatHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  dbId?: number;
+}
+
+export interface ChatContext {
+  threadId: number;
+  profile: StudentProfile | ProfessionalProfile;
+  profileType?: 'student' | 'professional' | null;
+  analysis?: CareerAnalysis | null;
+  chatHistory: ChatHistoryMessage[];
+  providerSettings?: ProviderSettings;  // Defaults to the user's selected provider
+}
+
+export interface ChatReply {
+  content: string;
+  changes: AnalysisChange[];  // Proposed edits to the analysis, awaiting the user's review
+}
+
+const REPLY_MAX_TOKENS = 2000;
+const SUMMARY_MAX_TOKENS = 600;
+
+// Shares of the prompt budget for the profile and analysis; history gets the rest
+const PROFILE_SHARE = 0.2;
+const ANALYSIS_SHARE = 0.3;
+
+// Compaction leaves recent turns using at most this share of the history budget,
+// so the summary isn't regenerated on every turn
+const COMPACTED_HISTORY_FILL = 0.6;
+
+const TOOL_INSTRUCTIONS = 'When the user asks to change their plan, timeline, resources or preferences, call the matching tool and briefly explain the change. The user reviews every change before it is saved.';
+
+// Shown when the model proposes changes without any text
+const PROPOSAL_FALLBACK_REPLY = "Here's the change I'd suggest. Review it below and accept it to save a new version of your analysis.";
+
+// JSON without whitespace, empty values or record bookkeeping
+const compactJson = (value: unknown): string => {
+  return JSON.stringify(value, (key, field) => {
+    if (['id', 'userId', 'latest', 'createdAt', 'updatedAt', 'version', 'encrypted', 'profileSnapshot'].includes(key)) return undefined;
+    if (field === '' || (Array.isArray(field) && field.length === 0)) return undefined;
+    return field;
+  });
+};
+
+// Analysis sections pulled in when the question touches on them
+const ANALYSIS_TOPICS: Array<{ pattern: RegExp; pick: (analysis: CareerAnalysis) => Record<string, unknown> }> = [
+  {
+    pattern: /timeline|month|schedule|milestone|when|how long|deadline/i,
+    pick: (analysis) => ({ timeline: analysis.planADeepDive?.timeline })
+  },
+  {
+    pattern: /course|learn|skill|resource|study|certif|budget|free|cheap/i,
+    pick: (analysis) => ({
+      skillsToLearn: analysis.roadmap?.skillsToLearn,
+      coursesAndResources: analysis.roadmap?.coursesAndResources,
+      competencies: analysis.planADeepDive?.competencies
+    })
+  },
+  {
+    pattern: /interview|prepar|resume|cv/i,
+    pick: (analysis) => ({ interviewPrepTopics: analysis.roadmap?.interviewPrepTopics })
+  },
+  {
+    pattern: /project|portfolio|build|tool|stack|technolog/i,
+    pick: (analysis) => ({
+      portfolio: analysis.planADeepDive?.portfolio,
+      toolsStack: analysis.planADeepDive?.toolsStack
+    })
+  },
+  {
+    pattern: /market|demand|salary|pay|job|remote|location|region|city|country|relocat|visa/i,
+    pick: (analysis) => ({
+      marketOutlook: analysis.planADeepDive?.marketOutlook,
+      futureDemand: analysis.planADeepDive?.futureDemand,
+      geoNotes: analysis.planADeepDive?.geoNotes
+    })
+  },
+  {
+    pattern: /risk|competition|worr|hard|difficult|fail/i,
+    pick: (analysis) => ({
+      risks: analysis.planADeepDive?.risks,
+      riskFactors: analysis.plans?.A?.riskFactors,
+      mitigations: analysis.plans?.A?.mitigations
+    })
+  },
+  {
+    pattern: /communit|network|event|meetup|mentor/i,
+    pick: (analysis) => ({ communitiesAndEvents: analysis.roadmap?.communitiesAndEvents })
+  }
+];
+
+// Send the whole analysis when it fits; otherwise the overview plus sections relevant to the question
+const selectAnalysisContext = (analysis: CareerAnalysis, question: string, maxTokens: number): string => {
+  const full = compactJson(analysis);
+  if (estimateTokens(full) <= maxTokens) return full;
+
+  const relevant = ANALYSIS_TOPICS
+    .filter(topic => topic.pattern.test(question))
+    .reduce((sections, topic) => ({ ...sections, ...topic.pick(analysis) }), {});
+
+  return truncateToTokens(compactJson({
+    summary: analysis.summary,
+    plans: analysis.plans,
+    nextActions: analysis.roadmap?.nextActions,
+    clarificationAnswers: analysis.clarificationAnswers,
+    ...relevant
+  }), maxTokens);
+};
+
+const summarizeTurns = async (
+  threadId: number,
+  providerSettings: ProviderSettings,
+  previousSummary: string,
+  turns: ChatHistoryMessage[],
+  signal?: AbortSignal
+) => {
+  const transcript = turns.map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n');
+
+  return await callOpenAI([
+    {
+      role: 'system',
+      content: 'You maintain a running summary of a career coaching conversation. Keep decisions, preferences, constraints, questions still open and advice already given. Write at most 250 words in plain prose.'
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}New conversation turns:\n${transcript}\n\nReturn the updated summary.`
+    }
+  ], false, undefined, { purpose: 'chat', threadId, providerSettings, signal, maxTokens: SUMMARY_MAX_TOKENS });
+};
+
+// Fit the conversation into the history budget, folding older turns into the thread's rolling summary
+const compactHistory = async (
+  threadId: number,
+  providerSettings: ProviderSettings,
+  chatHistory: ChatHistoryMessage[],
+  budget: number,
+  signal?: AbortSignal
+): Promise<{ summary: string; recent: ChatHistoryMessage[] }> => {
+  const thread = await getChatThread(threadId);
+  let summary = thread?.summary || '';
+  const summarizedThroughId = thread?.summarizedThroughId ?? 0;
+  let recent = chatHistory.filter(message => message.dbId === undefined || message.dbId > summarizedThroughId);
+
+  const historyTokens = () => estimateMessageTokens(recent) + estimateTokens(summary);
+  if (historyTokens() <= budget) return { summary, recent };
+
+  // Fold the oldest turns into the summary, always keeping the latest exchange verbatim
+  const target = budget * COMPACTED_HISTORY_FILL - SUMMARY_MAX_TOKENS;
+  let split = 0;
+  while (split < recent.length - 2 && estimateMessageTokens(recent.slice(split)) > target) {
+    split++;
+  }
+  const older = recent.slice(0, split).filter(message => message.dbId !== undefined);
+  recent = recent.slice(split);
+
+  if (older.length > 0) {
+    try {
+      summary = await summarizeTurns(threadId, providerSettings, summary, older, signal);
+      await saveChatThreadSummary(threadId, summary, older[older.length - 1].dbId!);
+    } catch (error) {
+      if (error instanceof LLMCancelledError) throw error;
+      // Without a fresh summary the older turns are simply left out
+      console.error('Failed to summarize chat history:', error);
+    }
+  }
+
+  // Last resort when even the recent turns are too long
+  while (recent.length > 1 && historyTokens() > budget) {
+    recent = recent.slice(1);
+  }
+  return { summary, recent };
+};
+
+// Chat with assistant, keeping the prompt within the selected model's context window.
+// With a saved analysis, the assistant can also propose edits to it through tool calls.
+export const chatWithAssistant = async (
+  message: string,
+  context: ChatContext,
+  onStream?: (content: string) => void,
+  signal?: AbortSignal
+): Promise<ChatReply> => {
+  const providerSettings = context.providerSettings || getActiveProviderSettings();
+  const budget = getPromptBudget(providerSettings.model, REPLY_MAX_TOKENS);
+  const systemPrompt = resolvePrompt('chat-system', buildPromptVariables(context.profile, context.profileType)).content;
+  const tools = context.analysis ? ANALYSIS_TOOLS : undefined;
+  const fixedTokens = estimateMessageTokens([
+    { role: 'system', content: systemPrompt },
+    ...(tools ? [{ role: 'system' as const, content: TOOL_INSTRUCTIONS }] : []),
+    { role: 'user', content: message }
+  ]) + (tools ? estimateTokens(JSON.stringify(tools)) : 0);
+
+  const profileContext = truncateToTokens(compactJson(context.profile), Math.floor(budget * PROFILE_SHARE));
+  const analysisContext = context.analysis
+    ? selectAnalysisContext(context.analysis, message, Math.floor(budget * ANALYSIS_SHARE))
+    : '';
+  const contextMessage = `User's profile: ${profileContext}${
+    analysisContext ? `\nUser's career analysis: ${analysisContext}` : ''
+  }`;
+
+  const historyBudget = Math.max(0, budget - fixedTokens - estimateTokens(contextMessage));
+  const { summary, recent } = await compactHistory(context.threadId, providerSettings, context.chatHistory, historyBudget, signal);
+
+  const messages: OpenAIMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...(tools ? [{ role: 'system' as const, content: TOOL_INSTRUCTIONS }] : []),
+    { role: 'system', content: contextMessage },
+    ...(summary ? [{ role: 'system' as const, content: `Summary of the earlier conversation: ${summary}` }] : []),
+    ...recent.map(msg => ({ role: msg.role, content: msg.content })),
+    { role: 'user', content: message }
+  ];
+
+  const changes: AnalysisChange[] = [];
+  const content = await callOpenAI(messages, true, onStream, {
+    purpose: 'chat',
+    threadId: context.threadId,
+    providerSettings,
+    signal,
+    maxTokens: REPLY_MAX_TOKENS,
+    tools,
+    onToolCall: (call) => {
+      const change = parseToolCall(call);
+      if (change) changes.push(change);
+    }
+  });
+
+  return {
+    content: !content.trim() && changes.length > 0 ? PROPOSAL_FALLBACK_REPLY : content,
+    changes
+  };
+};
@@ -0,0 +1,169 @@
+// WebCrypto helpers for passphrase-based encryption (PBKDF2 → AES-GCM)
+
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedPayload {
+  v: 1;
+  alg: 'AES-GCM';
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Base64 helpers
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const randomBytes = (length: number): Uint8Array => {
+  return crypto.getRandomValues(new Uint8Array(length));
+};
+
+// Derive an AES-GCM key from a passphrase
+export const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Encrypt with an already-derived key; salt and iteration count are recorded for later derivation
+export const encryptWithKey = async (
+  key: CryptoKey,
+  plaintext: string,
+  salt: Uint8Array,
+  iterations = PBKDF2_ITERATIONS
+): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+
+  return {
+    v: 1,
+    alg: 'AES-GCM',
+    kdf: 'PBKDF2-SHA256',
+    iterations,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(ciphertext))
+  };
+};
+
+export const decryptWithKey = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data)
+    );
+    return decoder.decode(plaintext);
+  } catch (error) {
+    throw new Error('Incorrect passphrase or corrupted data.');
+  }
+};
+
+export const encryptString = async (plaintext: string, passphrase: string): Promise<EncryptedPayload> => {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(passphrase, salt);
+  return await encryptWithKey(key, plaintext, salt);
+};
+
+export const decryptString = async (payload: EncryptedPayload, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(payload.salt), payload.iterations);
+  return await decryptWithKey(key, payload);
+};
+
+// Hex SHA-256 digest, used for content-addressed cache keys
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload => {
+  if (!value || typeof value !== 'object') return false;
+  const payload = value as Partial<EncryptedPayload>;
+  return payload.alg === 'AES-GCM'
+    && typeof payload.salt === 'string'
+    && typeof payload.iv === 'string'
+    && typeof payload.data === 'string';
+};
+
+// Salted PBKDF2 hash used to verify a passphrase without storing it
+export interface PassphraseVerifier {
+  salt: string;
+  iterations: number;
+  hash: string;
+}
+
+const derivePassphraseHash = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+export const createPassphraseVerifier = async (passphrase: string): Promise<PassphraseVerifier> => {
+  const salt = randomBytes(SALT_BYTES);
+  const hash = await derivePassphraseHash(passphrase, salt, PBKDF2_ITERATIONS);
+  return {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    hash: toBase64(hash)
+  };
+};
+
+export const verifyPassphrase = async (passphrase: string, verifier: PassphraseVerifier): Promise<boolean> => {
+  const expected = fromBase64(verifier.hash);
+  const actual = await derivePassphraseHash(passphrase, fromBase64(verifier.salt), verifier.iterations);
+  if (actual.length !== expected.length) return false;
+
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+};
@@ -1,4 +1,38 @@
 import Dexie, { Table } from 'dexie';
+import type { PassphraseVerifier } from './crypto';
+import type { ProviderId, ProviderSettings } from './providers';
+import type { PromptId, PromptOverride } from './prompts';
+import type { AnalysisContent } from './analysisSchema';
+import {
+  getVaultKey,
+  lockVault,
+  sealRecord,
+  openRecord,
+  isSealedRecord,
+  hasUnsealedFields,
+  VaultLockedError,
+  type VaultKey
+} from './vault';
+import { MIGRATIONS, CURRENT_SCHEMA_VERSION } from './migrations';
+import { broadcastChange } from './sync';
+import {
+  BACKUP_FORMAT,
+  BACKUP_SECTIONS,
+  BACKUP_TABLES,
+  countRecords,
+  getUserActivity,
+  planUserMerge,
+  sameCredentials,
+  selectUserRecords,
+  type BackupData,
+  type BackupFile,
+  type BackupSection,
+  type BackupTable,
+  type ImportMode,
+  type ImportOptions,
+  type ImportPreview,
+  type UserMergeAction
+} from './backup';
 
 // Types for the database schema
 export interface LocalUser {
@@ -9,6 +43,14 @@ export interface LocalUser {
   updatedAt: Date;
   isGuest: boolean;
   passphraseProtected: boolean;
+  passphraseVerifier?: PassphraseVerifier;
+  encryptionSalt?: string;
+  failedSignInAttempts?: number;
+  lockedUntil?: Date;
+  lastSignInAt?: Date;
+  providerSettings?: ProviderSettings;
+  monthlyBudgetUsd?: number;
+  promptOverrides?: Partial<Record<PromptId, PromptOverride>>;
 }
 
 export interface StudentProfile {
@@ -42,6 +84,7 @@ export interface StudentProfile {
   preferredLocations: string[];
   workAuthorization: string;
   preferences: ProfilePreferences;
+  notes?: string;  // Free-text context from the confirmation step, passed to the analysis
   status: 'draft' | 'confirmed';
   updatedAt: Date;
 }
@@ -73,6 +116,7 @@ export interface ProfessionalProfile {
   };
   preferredLocations: string[];
   preferences: ProfilePreferences;
+  notes?: string;
   status: 'draft' | 'confirmed';
   updatedAt: Date;
 }
@@ -85,11 +129,21 @@ export interface ProfilePreferences {
   learningStyle: 'self-paced' | 'structured' | 'mentored';
 }
 
+export interface ClarificationAnswer {
+  question: string;
+  answer: string;
+}
+
 export interface CareerAnalysis {
   id?: number;
   userId: number;
   status: 'needs_clarification' | 'analyzing' | 'complete';
   clarifications: string[];
+  clarificationAnswers?: ClarificationAnswer[];
+  promptVersion?: string;  // System prompt the analysis was generated with
+  changeNotes?: string[];  // Chat revisions accepted into this version
+  profileType?: 'student' | 'professional';
+  profileSnapshot?: StudentProfile | ProfessionalProfile;  // Profile the version was based on
   interestsConfirmed: boolean;
   plans: {
     A: {
@@ -154,12 +208,33 @@ export interface CareerAnalysis {
   version: number;
 }
 
+// Intermediate results of an in-progress analysis, kept so a failed stage can resume
+export interface AnalysisRun {
+  id?: number;
+  userId: number;
+  provider?: ProviderId;  // Stages are only reused with the same provider, model and prompt
+  model?: string;
+  promptVersion?: string;
+  profileType: 'student' | 'professional';
+  profileUpdatedAt: Date;
+  stages: Record<string, unknown>;
+  clarificationRounds?: Array<{ questions: string[]; answers?: string[] }>;
+  status: 'running' | 'needs_clarification' | 'failed' | 'complete';
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface ChatThread {
   id?: number;
   userId: number;
   title: string;
   createdAt: Date;
+  updatedAt?: Date;
+  archived?: boolean;
   contextRefs: string[];
+  summary?: string;               // Rolling summary of older turns dropped from the prompt
+  summarizedThroughId?: number;   // Last message folded into the summary
 }
 
 export interface ChatMessage {
@@ -172,6 +247,49 @@ export interface ChatMessage {
   annotations?: Record<string, any>;
 }
 
+// A completed analysis, reused while its inputs are unchanged
+export interface CachedResponse {
+  id?: number;
+  key: string;  // Hash of the user, provider, model, prompt version and profile
+  userId: number;
+  provider: ProviderId;
+  model: string;
+  promptVersion: string;
+  profileType: 'student' | 'professional';
+  analysis: AnalysisContent;
+  analysisId?: number;  // The saved version showing this result
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// One LLM request, for the usage and cost ledger
+export interface UsageRecord {
+  id?: number;
+  userId: number;
+  purpose: 'analysis' | 'chat' | 'test';
+  provider: ProviderId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean;     // Token counts are local estimates rather than provider-reported
+  costUsd: number;
+  latencyMs: number;
+  threadId?: number;
+  analysisRunId?: number;
+  createdAt: Date;
+}
+
+// Everything that was in the database before the last import, for undo
+export interface ImportSnapshot {
+  id?: number;
+  backup: BackupFile;
+  // Device-only tables that backups leave out; missing from snapshots taken by older versions
+  analysisRuns?: AnalysisRun[];
+  responseCache?: CachedResponse[];
+  mode: ImportMode;
+  createdAt: Date;
+}
+
 export interface AppSettings {
   id?: number;
   openaiKeyStored: 'session' | 'encrypted_local' | 'none';
@@ -187,22 +305,21 @@ export class SkillLeadDB extends Dexie {
   studentProfiles!: Table<StudentProfile>;
   professionalProfiles!: Table<ProfessionalProfile>;
   analyses!: Table<CareerAnalysis>;
+  analysisRuns!: Table<AnalysisRun>;
+  usageRecords!: Table<UsageRecord>;
+  responseCache!: Table<CachedResponse>;
   chatThreads!: Table<ChatThread>;
   chatMessages!: Table<ChatMessage>;
   settings!: Table<AppSettings>;
+  importSnapshots!: Table<ImportSnapshot>;
 
   constructor() {
     super('SkillLeadDB');
-    
-    this.version(1).stores({
-      users: '++id, name, role, createdAt, isGuest',
-      studentProfiles: '++id, userId, status, updatedAt',
-      professionalProfiles: '++id, userId, status, updatedAt',
-      analyses: '++id, userId, latest, createdAt, version',
-      chatThreads: '++id, userId, createdAt',
-      chatMessages: '++id, threadId, role, createdAt',
-      settings: '++id, updatedAt'
-    });
+
+    for (const migration of MIGRATIONS) {
+      const version = this.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) version.upgrade(migration.upgrade);
+    }
   }
 }
 
@@ -219,26 +336,327 @@ export const getCurrentUser = async (): Promise<LocalUser | undefined> => {
   return users[0];
 };
 
+// Resolve the in-memory vault key for a user; protected users must be unlocked first
+const resolveVaultKey = async (userId: number) => {
+  const vaultKey = getVaultKey(userId);
+  if (vaultKey) return vaultKey;
+
+  const user = await db.users.get(userId);
+  if (user?.passphraseProtected) {
+    throw new VaultLockedError();
+  }
+  return undefined;
+};
+
+const resolveThreadVaultKey = async (threadId: number) => {
+  const thread = await db.chatThreads.get(threadId);
+  return thread ? await resolveVaultKey(thread.userId) : undefined;
+};
+
 export const getProfileByUserId = async (userId: number, role: 'student' | 'professional') => {
+  const vaultKey = await resolveVaultKey(userId);
   if (role === 'student') {
-    return await db.studentProfiles.where('userId').equals(userId).first();
+    return await openRecord(await db.studentProfiles.where('userId').equals(userId).first(), vaultKey);
   } else {
-    return await db.professionalProfiles.where('userId').equals(userId).first();
+    return await openRecord(await db.professionalProfiles.where('userId').equals(userId).first(), vaultKey);
   }
 };
 
+// Insert or replace the user's profile, encrypting it for protected users
+export const saveProfile = async (
+  profile: Omit<StudentProfile, 'id'> | Omit<ProfessionalProfile, 'id'>,
+  role: 'student' | 'professional'
+): Promise<number> => {
+  const vaultKey = await resolveVaultKey(profile.userId);
+  const table = role === 'student' ? 'studentProfiles' : 'professionalProfiles';
+  const existing = await db[table].where('userId').equals(profile.userId).first();
+  const record = existing ? { ...profile, id: existing.id } : profile;
+  const sealed = await sealRecord(table, record, vaultKey);
+  const id = await db[table].put(sealed as StudentProfile & ProfessionalProfile);
+  broadcastChange({ type: 'profile', userId: profile.userId, profileType: role });
+  return id;
+};
+
 export const getLatestAnalysis = async (userId: number): Promise<CareerAnalysis | undefined> => {
-  return await db.analyses.where({ userId, latest: true }).first();
+  const vaultKey = await resolveVaultKey(userId);
+  return await openRecord(await db.analyses.where({ userId, latest: true }).first(), vaultKey);
+};
+
+// Store a new analysis as the user's latest, numbered after their previous versions
+export const saveAnalysis = async (analysis: Omit<CareerAnalysis, 'id' | 'version'>): Promise<CareerAnalysis> => {
+  const vaultKey = await resolveVaultKey(analysis.userId);
+  const sealed = await sealRecord('analyses', analysis, vaultKey);
+
+  const saved = await db.transaction('rw', db.analyses, async () => {
+    const previous = await db.analyses.where('userId').equals(analysis.userId).toArray();
+    const version = Math.max(0, ...previous.map(record => record.version || 0)) + 1;
+    if (analysis.latest) {
+      await db.analyses.where({ userId: analysis.userId, latest: true }).modify({ latest: false });
+    }
+    const id = await db.analyses.add({ ...sealed, version });
+    return { ...analysis, id, version };
+  });
+  broadcastChange({ type: 'analysis', userId: analysis.userId, analysisId: saved.id });
+  return saved;
+};
+
+// Every analysis version for a user, newest first
+export const getAnalysisHistory = async (userId: number): Promise<CareerAnalysis[]> => {
+  const vaultKey = await resolveVaultKey(userId);
+  const stored = await db.analyses.where('userId').equals(userId).toArray();
+  const analyses = await Promise.all(stored.map(analysis => openRecord(analysis, vaultKey)));
+  return analyses.sort((a, b) =>
+    (b.version || 0) - (a.version || 0) || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+};
+
+// Mark an earlier version as the user's latest analysis again
+export const restoreAnalysisVersion = async (userId: number, analysisId: number): Promise<CareerAnalysis | undefined> => {
+  const vaultKey = await resolveVaultKey(userId);
+  const stored = await db.analyses.get(analysisId);
+  if (!stored || stored.userId !== userId) return undefined;
+
+  const updatedAt = new Date();
+  await db.transaction('rw', db.analyses, async () => {
+    await db.analyses.where({ userId, latest: true }).modify({ latest: false });
+    await db.analyses.update(analysisId, { latest: true, updatedAt });
+  });
+  broadcastChange({ type: 'analysis', userId, analysisId });
+  return await openRecord({ ...stored, latest: true, updatedAt }, vaultKey);
+};
+
+// Latest unfinished analysis run, if its inputs have not changed since
+export const getResumableAnalysisRun = async (
+  userId: number,
+  inputs: Pick<AnalysisRun, 'provider' | 'model' | 'promptVersion' | 'profileType' | 'profileUpdatedAt'>
+): Promise<AnalysisRun | undefined> => {
+  const vaultKey = await resolveVaultKey(userId);
+  const runs = await db.analysisRuns.where('userId').equals(userId).toArray();
+  const run = runs
+    .filter(run => run.status !== 'complete')
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())[0];
+  if (!run) return undefined;
+
+  const opened = await openRecord(run, vaultKey);
+  const sameInputs = opened.provider === inputs.provider &&
+    opened.model === inputs.model &&
+    opened.promptVersion === inputs.promptVersion &&
+    opened.profileType === inputs.profileType &&
+    new Date(opened.profileUpdatedAt).getTime() === new Date(inputs.profileUpdatedAt).getTime();
+  return sameInputs ? opened : undefined;
+};
+
+export const saveAnalysisRun = async (run: AnalysisRun): Promise<number> => {
+  const vaultKey = await resolveVaultKey(run.userId);
+  return await db.analysisRuns.put(await sealRecord('analysisRuns', run, vaultKey));
+};
+
+export const clearAnalysisRuns = async (userId: number) => {
+  await db.analysisRuns.where('userId').equals(userId).delete();
+};
+
+// Unexpired cached response for this key, if any
+export const getCachedResponse = async (userId: number, key: string): Promise<CachedResponse | undefined> => {
+  await db.responseCache.where('expiresAt').below(new Date()).delete();
+  const cached = await db.responseCache.get({ key });
+  if (!cached || cached.userId !== userId) return undefined;
+  return await openRecord(cached, await resolveVaultKey(userId));
+};
+
+export const saveCachedResponse = async (entry: Omit<CachedResponse, 'id'>) => {
+  const vaultKey = await resolveVaultKey(entry.userId);
+  const existing = await db.responseCache.get({ key: entry.key });
+  const sealed = await sealRecord('responseCache', existing ? { ...entry, id: existing.id } : entry, vaultKey);
+  await db.responseCache.put(sealed);
+};
+
+// Record which analysis version shows a cached result
+export const linkCachedResponse = async (key: string, analysisId: number) => {
+  await db.responseCache.where('key').equals(key).modify({ analysisId });
+};
+
+// Cache entries for listing; the analyses themselves may still be sealed
+export const getCachedResponses = async (userId: number): Promise<CachedResponse[]> => {
+  const entries = await db.responseCache.where('userId').equals(userId).toArray();
+  return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+};
+
+export const deleteCachedResponse = async (id: number) => {
+  await db.responseCache.delete(id);
+};
+
+export const clearResponseCache = async (userId: number) => {
+  await db.responseCache.where('userId').equals(userId).delete();
+};
+
+export const addUsageRecord = async (record: Omit<UsageRecord, 'id'>): Promise<number> => {
+  return await db.usageRecords.add(record);
+};
+
+export const getUsageRecords = async (userId: number, since = new Date(0)): Promise<UsageRecord[]> => {
+  return await db.usageRecords
+    .where('[userId+createdAt]')
+    .between([userId, since], [userId, Dexie.maxKey])
+    .toArray();
 };
 
 export const getChatThreads = async (userId: number): Promise<ChatThread[]> => {
-  const threads = await db.chatThreads.where('userId').equals(userId).toArray();
-  return threads.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  const vaultKey = await resolveVaultKey(userId);
+  const stored = await db.chatThreads.where('userId').equals(userId).toArray();
+  const threads = await Promise.all(stored.map(thread => openRecord(thread, vaultKey)));
+  return threads.sort((a, b) => 
+    new Date(b.updatedAt || b.createdAt).getTime() - new Date(a.updatedAt || a.createdAt).getTime()
+  );
 };
 
 export const getChatMessages = async (threadId: number): Promise<ChatMessage[]> => {
+  const vaultKey = await resolveThreadVaultKey(threadId);
   const messages = await db.chatMessages.where('threadId').equals(threadId).toArray();
-  return messages.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  const opened = await Promise.all(messages.map(message => openRecord(message, vaultKey)));
+  return opened.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+export const getChatThread = async (threadId: number): Promise<ChatThread | undefined> => {
+  const thread = await db.chatThreads.get(threadId);
+  return thread ? await openRecord(thread, await resolveVaultKey(thread.userId)) : undefined;
+};
+
+// Store the thread's rolling summary, encrypted for protected users
+export const saveChatThreadSummary = async (threadId: number, summary: string, summarizedThroughId: number) => {
+  const thread = await getChatThread(threadId);
+  if (!thread) return;
+
+  const vaultKey = await resolveVaultKey(thread.userId);
+  await db.chatThreads.put(await sealRecord('chatThreads', { ...thread, summary, summarizedThroughId }, vaultKey));
+};
+
+export const DEFAULT_CHAT_THREAD_TITLE = 'New conversation';
+
+export const createChatThread = async (userId: number, title = DEFAULT_CHAT_THREAD_TITLE): Promise<ChatThread> => {
+  const vaultKey = await resolveVaultKey(userId);
+  const now = new Date();
+  const thread: ChatThread = {
+    userId,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    contextRefs: []
+  };
+  const id = await db.chatThreads.add(await sealRecord('chatThreads', thread, vaultKey));
+  broadcastChange({ type: 'chat', threadId: id as number });
+  return { ...thread, id };
+};
+
+// Titles are built from the first message, so they're encrypted along with it for protected users
+export const renameChatThread = async (threadId: number, title: string) => {
+  const thread = await getChatThread(threadId);
+  if (!thread) return;
+
+  const vaultKey = await resolveVaultKey(thread.userId);
+  await db.chatThreads.put(await sealRecord('chatThreads', { ...thread, title }, vaultKey));
+  broadcastChange({ type: 'chat', threadId });
+};
+
+export const setChatThreadArchived = async (threadId: number, archived: boolean) => {
+  await db.chatThreads.update(threadId, { archived });
+  broadcastChange({ type: 'chat', threadId });
+};
+
+// Delete a thread together with all of its messages
+export const deleteChatThread = async (threadId: number) => {
+  await db.transaction('rw', [db.chatThreads, db.chatMessages], async () => {
+    await db.chatMessages.where('threadId').equals(threadId).delete();
+    await db.chatThreads.delete(threadId);
+  });
+  broadcastChange({ type: 'chat', threadId });
+};
+
+export const addChatMessage = async (message: Omit<ChatMessage, 'id'>): Promise<number> => {
+  const vaultKey = await resolveThreadVaultKey(message.threadId);
+  const sealed = await sealRecord('chatMessages', message, vaultKey);
+
+  const id = await db.transaction('rw', [db.chatThreads, db.chatMessages], async () => {
+    await db.chatThreads.update(message.threadId, { updatedAt: message.createdAt });
+    return await db.chatMessages.add(sealed);
+  });
+  broadcastChange({ type: 'chat', threadId: message.threadId });
+  return id;
+};
+
+export const updateChatMessage = async (id: number, changes: Partial<Omit<ChatMessage, 'id' | 'threadId'>>) => {
+  const stored = await db.chatMessages.get(id);
+  if (!stored) return;
+
+  const vaultKey = await resolveThreadVaultKey(stored.threadId);
+  if (!vaultKey) {
+    await db.chatMessages.update(id, changes);
+  } else {
+    const message = await openRecord(stored, vaultKey);
+    await db.chatMessages.put(await sealRecord('chatMessages', { ...message, ...changes }, vaultKey));
+  }
+  broadcastChange({ type: 'chat', threadId: stored.threadId });
+};
+
+export const deleteChatMessage = async (id: number) => {
+  const stored = await db.chatMessages.get(id);
+  if (!stored) return;
+
+  await db.chatMessages.delete(id);
+  broadcastChange({ type: 'chat', threadId: stored.threadId });
+};
+
+// Encrypt any plaintext records left over from before a user's vault was unlocked, and reseal
+// records whose fields were partly kept in plaintext by an older version
+export const sealExistingRecords = async (userId: number) => {
+  const vaultKey = getVaultKey(userId);
+  if (!vaultKey) return;
+
+  const threadIds = (await db.chatThreads.where('userId').equals(userId).primaryKeys()) as number[];
+  const [studentProfiles, professionalProfiles, analyses, analysisRuns, chatThreads, chatMessages, cachedResponses] = await Promise.all([
+    db.studentProfiles.where('userId').equals(userId).toArray(),
+    db.professionalProfiles.where('userId').equals(userId).toArray(),
+    db.analyses.where('userId').equals(userId).toArray(),
+    db.analysisRuns.where('userId').equals(userId).toArray(),
+    db.chatThreads.where('userId').equals(userId).toArray(),
+    db.chatMessages.where('threadId').anyOf(threadIds).toArray(),
+    db.responseCache.where('userId').equals(userId).toArray()
+  ]);
+
+  const seal = async <T extends object>(table: Parameters<typeof sealRecord>[0], records: T[]) => {
+    const sealed = await Promise.all(records
+      .filter(record => !isSealedRecord(record) || hasUnsealedFields(table, record))
+      .map(record => openRecord(record, vaultKey)
+        .then(opened => sealRecord(table, opened!, vaultKey))
+        // Left as it is when sealed under a different passphrase
+        .catch(() => undefined)));
+    return sealed.filter((record): record is T => !!record);
+  };
+
+  const [sealedStudent, sealedProfessional, sealedAnalyses, sealedRuns, sealedThreads, sealedMessages, sealedCache] = await Promise.all([
+    seal('studentProfiles', studentProfiles),
+    seal('professionalProfiles', professionalProfiles),
+    seal('analyses', analyses),
+    seal('analysisRuns', analysisRuns),
+    seal('chatThreads', chatThreads),
+    seal('chatMessages', chatMessages),
+    seal('responseCache', cachedResponses)
+  ]);
+
+  const tables = [
+    db.studentProfiles, db.professionalProfiles, db.analyses, db.analysisRuns, db.chatThreads, db.chatMessages, db.responseCache
+  ];
+  await db.transaction('rw', tables, async () => {
+    await Promise.all([
+      db.studentProfiles.bulkPut(sealedStudent),
+      db.professionalProfiles.bulkPut(sealedProfessional),
+      db.analyses.bulkPut(sealedAnalyses),
+      db.analysisRuns.bulkPut(sealedRuns),
+      db.chatThreads.bulkPut(sealedThreads),
+      db.chatMessages.bulkPut(sealedMessages),
+      db.responseCache.bulkPut(sealedCache)
+    ]);
+  });
 };
 
 export const getSettings = async (): Promise<AppSettings | undefined> => {
@@ -247,19 +665,21 @@ export const getSettings = async (): Promise<AppSettings | undefined> => {
 };
 
 // Export all data for backup
-export const exportAllData = async () => {
-  const [users, studentProfiles, professionalProfiles, analyses, chatThreads, chatMessages, settings] = await Promise.all([
+export const exportAllData = async (): Promise<BackupFile> => {
+  const [users, studentProfiles, professionalProfiles, analyses, chatThreads, chatMessages, usageRecords, settings] = await Promise.all([
     db.users.toArray(),
     db.studentProfiles.toArray(),
     db.professionalProfiles.toArray(),
     db.analyses.toArray(),
     db.chatThreads.toArray(),
     db.chatMessages.toArray(),
+    db.usageRecords.toArray(),
     db.settings.toArray()
   ]);
 
   return {
-    version: 1,
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     exported: new Date().toISOString(),
     data: {
       users,
@@ -268,35 +688,314 @@ export const exportAllData = async () => {
       analyses,
       chatThreads,
       chatMessages,
+      usageRecords,
       settings
     }
   };
 };
 
-// Import data from backup
-export const importData = async (backupData: any) => {
-  await db.transaction('rw', [db.users, db.studentProfiles, db.professionalProfiles, db.analyses, db.chatThreads, db.chatMessages, db.settings], async () => {
+// Export one user's data, optionally only some sections. Other users and device settings are left out.
+// Records are exported as stored, so a protected user's sealed records still need their passphrase.
+export const exportUserData = async (userId: number, sections: BackupSection[] = [...BACKUP_SECTIONS]): Promise<BackupFile> => {
+  const user = await db.users.get(userId);
+  if (!user) {
+    throw new Error('This profile no longer exists on this device.');
+  }
+  const { failedSignInAttempts, lockedUntil, ...exportedUser } = user;
+
+  const has = (section: BackupSection) => sections.includes(section);
+  const threadIds = has('chats') ? (await db.chatThreads.where('userId').equals(userId).primaryKeys()) as number[] : [];
+  const [studentProfiles, professionalProfiles, analyses, chatThreads, chatMessages, usageRecords] = await Promise.all([
+    has('profile') ? db.studentProfiles.where('userId').equals(userId).toArray() : [],
+    has('profile') ? db.professionalProfiles.where('userId').equals(userId).toArray() : [],
+    has('analyses') ? db.analyses.where('userId').equals(userId).toArray() : [],
+    has('chats') ? db.chatThreads.where('userId').equals(userId).toArray() : [],
+    has('chats') ? db.chatMessages.where('threadId').anyOf(threadIds).toArray() : [],
+    has('usage') ? db.usageRecords.where('userId').equals(userId).toArray() : []
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exported: new Date().toISOString(),
+    sections,
+    data: {
+      users: [exportedUser],
+      studentProfiles,
+      professionalProfiles,
+      analyses,
+      chatThreads,
+      chatMessages,
+      usageRecords,
+      settings: []
+    }
+  };
+};
+
+const importTables = () => [
+  db.users, db.studentProfiles, db.professionalProfiles, db.analyses, db.analysisRuns,
+  db.chatThreads, db.chatMessages, db.usageRecords, db.responseCache, db.settings
+];
+
+type DeviceRecords = Pick<ImportSnapshot, 'analysisRuns' | 'responseCache'>;
+
+const replaceAllData = async (data: BackupData, deviceRecords: DeviceRecords = {}) => {
+  await db.transaction('rw', importTables(), async () => {
     // Clear existing data
+    await Promise.all(importTables().map(table => table.clear()));
+
+    // Import new data
     await Promise.all([
-      db.users.clear(),
-      db.studentProfiles.clear(),
-      db.professionalProfiles.clear(),
-      db.analyses.clear(),
-      db.chatThreads.clear(),
-      db.chatMessages.clear(),
-      db.settings.clear()
+      db.users.bulkAdd(data.users),
+      db.studentProfiles.bulkAdd(data.studentProfiles),
+      db.professionalProfiles.bulkAdd(data.professionalProfiles),
+      db.analyses.bulkAdd(data.analyses),
+      db.chatThreads.bulkAdd(data.chatThreads),
+      db.chatMessages.bulkAdd(data.chatMessages),
+      db.usageRecords.bulkAdd(data.usageRecords),
+      db.settings.bulkAdd(data.settings),
+      db.analysisRuns.bulkAdd(deviceRecords.analysisRuns ?? []),
+      db.responseCache.bulkAdd(deviceRecords.responseCache ?? [])
     ]);
+  });
+};
 
-    // Import new data
-    const { data } = backupData;
+// Local records owned by the given users, including the ones that aren't part of a backup
+const localUserRecords = (userIds: number[]) => {
+  const threads = db.chatThreads.where('userId').anyOf(userIds);
+  return {
+    users: db.users.where('id').anyOf(userIds),
+    studentProfiles: db.studentProfiles.where('userId').anyOf(userIds),
+    professionalProfiles: db.professionalProfiles.where('userId').anyOf(userIds),
+    analyses: db.analyses.where('userId').anyOf(userIds),
+    analysisRuns: db.analysisRuns.where('userId').anyOf(userIds),
+    chatThreads: threads,
+    chatMessages: async () => db.chatMessages.where('threadId').anyOf((await threads.primaryKeys()) as number[]),
+    usageRecords: db.usageRecords.where('userId').anyOf(userIds),
+    responseCache: db.responseCache.where('userId').anyOf(userIds)
+  };
+};
+
+const planMerge = async (data: BackupData, options: ImportOptions): Promise<UserMergeAction[]> => {
+  const users = await db.users.toArray();
+  const localUsers = await Promise.all(users.map(async user => {
+    const userId = user.id!;
+    const [studentProfiles, professionalProfiles, analyses, chatThreads] = await Promise.all([
+      db.studentProfiles.where('userId').equals(userId).toArray(),
+      db.professionalProfiles.where('userId').equals(userId).toArray(),
+      db.analyses.where('userId').equals(userId).toArray(),
+      db.chatThreads.where('userId').equals(userId).toArray()
+    ]);
+    return { user, lastActivity: getUserActivity(user, { studentProfiles, professionalProfiles, analyses, chatThreads }) };
+  }));
+  return planUserMerge(data, localUsers, options.duplicateUsers, options.sections);
+};
+
+// A thread's summary covers messages up to an id, which sealed threads keep encrypted. Importing renumbers
+// the messages, so the thread is opened to remap that id, or without the key loses its summary, which is
+// rebuilt the next time the conversation gets long, and its title.
+const IMPORTED_CHAT_THREAD_TITLE = 'Imported conversation';
+
+const openImportedThread = async (thread: ChatThread, vaultKey?: VaultKey): Promise<ChatThread> => {
+  if (!isSealedRecord(thread)) return thread;
+
+  if (vaultKey) {
+    try {
+      return (await openRecord(thread, vaultKey))!;
+    } catch (error) {
+      console.warn('Imported chat thread is sealed under a different passphrase:', error);
+    }
+  }
+  const { encrypted, summary, summarizedThroughId, ...visible } = thread;
+  return { ...visible, title: IMPORTED_CHAT_THREAD_TITLE } as ChatThread;
+};
+
+const mergeData = async (data: BackupData, plan: UserMergeAction[], sections: BackupSection[]) => {
+  const replacedIds = plan.filter(user => user.action === 'replace').map(user => user.duplicateOf!);
+  const has = (section: BackupSection) => sections.includes(section);
+
+  const resealIds: number[] = [];
+  const changedCredentialIds: number[] = [];
+
+  // Opened before the transaction, which would commit early while waiting on encryption
+  const threads = new Map<number, ChatThread>();
+  for (const entry of plan) {
+    if (entry.action === 'skip') continue;
+    const vaultKey = entry.action === 'replace' ? getVaultKey(entry.duplicateOf!) : undefined;
+    for (const thread of selectUserRecords(data, new Set([entry.backupUserId])).chatThreads) {
+      threads.set(thread.id!, await openImportedThread(thread, vaultKey));
+    }
+  }
+
+  await db.transaction('rw', importTables(), async () => {
+    // A newer backup copy of a user takes the place of the local one, keeping its id.
+    // Sections the backup doesn't contain are kept.
+    const replaced = localUserRecords(replacedIds);
+    if (has('chats')) {
+      await (await replaced.chatMessages()).delete();
+      await replaced.chatThreads.delete();
+    }
     await Promise.all([
-      db.users.bulkAdd(data.users || []),
-      db.studentProfiles.bulkAdd(data.studentProfiles || []),
-      db.professionalProfiles.bulkAdd(data.professionalProfiles || []),
-      db.analyses.bulkAdd(data.analyses || []),
-      db.chatThreads.bulkAdd(data.chatThreads || []),
-      db.chatMessages.bulkAdd(data.chatMessages || []),
-      db.settings.bulkAdd(data.settings || [])
+      has('profile') && replaced.studentProfiles.delete(),
+      has('profile') && replaced.professionalProfiles.delete(),
+      has('analyses') && replaced.analyses.delete(),
+      has('analyses') && replaced.analysisRuns.delete(),
+      has('analyses') && replaced.responseCache.delete(),
+      has('usage') && replaced.usageRecords.delete()
     ]);
+
+    for (const entry of plan) {
+      if (entry.action === 'skip') continue;
+
+      const records = selectUserRecords(data, new Set([entry.backupUserId]));
+      const { id, ...user } = records.users[0];
+      let userId: number;
+      if (entry.action === 'replace') {
+        userId = entry.duplicateOf!;
+        // The local records a partial replace keeps are sealed under the local credentials, so those stay.
+        // A full replace brings all of the user's records, sealed under the backup's.
+        const local = await db.users.get(userId);
+        const keepCredentials = !!local && (sections.length < BACKUP_SECTIONS.length || sameCredentials(local, user));
+        const credentials = keepCredentials
+          ? { passphraseProtected: local.passphraseProtected, passphraseVerifier: local.passphraseVerifier, encryptionSalt: local.encryptionSalt }
+          : {};
+        await db.users.put({ ...user, ...credentials, id: userId });
+        (keepCredentials ? resealIds : changedCredentialIds).push(userId);
+      } else {
+        userId = await db.users.add({ ...user, name: entry.renamedTo ?? user.name }) as number;
+      }
+
+      // Ids are reassigned on add, so owner references are rewritten to the new ids
+      const owned = <T extends { id?: number; userId: number }>(rows: T[]) => rows.map(({ id, ...row }) => ({ ...row, userId }) as T);
+      await Promise.all([
+        db.studentProfiles.bulkAdd(owned(records.studentProfiles)),
+        db.professionalProfiles.bulkAdd(owned(records.professionalProfiles)),
+        db.analyses.bulkAdd(owned(records.analyses))
+      ]);
+
+      const threadIds = new Map<number, number>();
+      for (const { id: backupThreadId } of records.chatThreads) {
+        const { id, ...thread } = threads.get(backupThreadId!)!;
+        threadIds.set(backupThreadId!, await db.chatThreads.add({ ...thread, userId }) as number);
+      }
+
+      const messageIds = await db.chatMessages.bulkAdd(
+        records.chatMessages.map(({ id, ...message }) => ({ ...message, threadId: threadIds.get(message.threadId)! })),
+        { allKeys: true }
+      ) as number[];
+      const newMessageIds = new Map(records.chatMessages.map((message, index) => [message.id!, messageIds[index]]));
+
+      for (const { id: backupThreadId } of records.chatThreads) {
+        const { summarizedThroughId } = threads.get(backupThreadId!)!;
+        if (summarizedThroughId === undefined) continue;
+        await db.chatThreads.update(threadIds.get(backupThreadId!)!, {
+          summarizedThroughId: newMessageIds.get(summarizedThroughId) ?? 0
+        });
+      }
+
+      // Analysis runs aren't exported, so usage records lose that link
+      await db.usageRecords.bulkAdd(records.usageRecords.map(({ id, analysisRunId, ...record }) => ({
+        ...record,
+        userId,
+        threadId: record.threadId !== undefined ? threadIds.get(record.threadId) : undefined
+      })));
+    }
+
+    // Settings belong to the device; only use the backup's when there are none yet
+    if (await db.settings.count() === 0) {
+      await db.settings.bulkAdd(data.settings.map(({ id, ...settings }) => settings));
+    }
   });
-};
\ No newline at end of file
+
+  // Threads opened above were written in plaintext; seal them again. A key unlocked with a replaced
+  // passphrase no longer fits the user's records, so they sign in again.
+  for (const userId of resealIds) {
+    await sealExistingRecords(userId);
+  }
+  changedCredentialIds.forEach(userId => lockVault(userId));
+};
+
+// Dry run: how many records an import would add, remove and skip
+export const previewImport = async (data: BackupData, options: ImportOptions): Promise<ImportPreview> => {
+  const none = Object.fromEntries(BACKUP_TABLES.map(table => [table, 0])) as Record<BackupTable, number>;
+
+  if (options.mode === 'replace') {
+    const counts = await Promise.all(BACKUP_TABLES.map(table => db.table(table).count()));
+    return {
+      added: countRecords(data),
+      removed: Object.fromEntries(BACKUP_TABLES.map((table, index) => [table, counts[index]])) as Record<BackupTable, number>,
+      skipped: none,
+      users: []
+    };
+  }
+
+  const users = await planMerge(data, options);
+  const backupIds = (actions: Array<UserMergeAction['action']>) =>
+    new Set(users.filter(user => actions.includes(user.action)).map(user => user.backupUserId));
+
+  const replaced = localUserRecords(users.filter(user => user.action === 'replace').map(user => user.duplicateOf!));
+  const has = (section: BackupSection) => options.sections.includes(section);
+  const [removedUsers, studentProfiles, professionalProfiles, analyses, chatThreads, chatMessages, usageRecords] = await Promise.all([
+    replaced.users.count(),
+    has('profile') ? replaced.studentProfiles.count() : 0,
+    has('profile') ? replaced.professionalProfiles.count() : 0,
+    has('analyses') ? replaced.analyses.count() : 0,
+    has('chats') ? replaced.chatThreads.count() : 0,
+    has('chats') ? replaced.chatMessages().then(messages => messages.count()) : 0,
+    has('usage') ? replaced.usageRecords.count() : 0
+  ]);
+  const settingsAdded = (await db.settings.count()) === 0 ? data.settings.length : 0;
+
+  return {
+    added: { ...countRecords(selectUserRecords(data, backupIds(['add', 'replace']))), settings: settingsAdded },
+    removed: {
+      users: removedUsers, studentProfiles, professionalProfiles, analyses, chatThreads, chatMessages, usageRecords, settings: 0
+    },
+    skipped: { ...countRecords(selectUserRecords(data, backupIds(['skip']))), settings: data.settings.length - settingsAdded },
+    users
+  };
+};
+
+// Import a validated backup. The current data is kept as a snapshot first so the import can be undone.
+export const importData = async (data: BackupData, options: ImportOptions) => {
+  const plan = options.mode === 'merge' ? await planMerge(data, options) : [];
+
+  const [snapshot, analysisRuns, responseCache] = await Promise.all([
+    exportAllData(),
+    db.analysisRuns.toArray(),
+    db.responseCache.toArray()
+  ]);
+  await db.transaction('rw', db.importSnapshots, async () => {
+    await db.importSnapshots.clear();
+    await db.importSnapshots.add({
+      backup: snapshot,
+      analysisRuns,
+      responseCache,
+      mode: options.mode,
+      createdAt: new Date()
+    });
+  });
+
+  if (options.mode === 'replace') {
+    await replaceAllData(data);
+  } else {
+    await mergeData(data, plan, options.sections);
+  }
+  broadcastChange({ type: 'data-replaced' });
+};
+
+export const getImportSnapshot = async (): Promise<ImportSnapshot | undefined> => {
+  return await db.importSnapshots.orderBy('createdAt').last();
+};
+
+// Put back the data from before the last import
+export const undoLastImport = async (): Promise<boolean> => {
+  const snapshot = await getImportSnapshot();
+  if (!snapshot) return false;
+
+  // The snapshot came straight from this database, so it skips backup validation
+  await replaceAllData(snapshot.backup.data, snapshot);
+  await db.importSnapshots.clear();
+  broadcastChange({ type: 'data-replaced' });
+  return true;
+};
@@ -0,0 +1,157 @@
+// Typed failures from LLM provider calls
+
+export type LLMErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'content-filter'
+  | 'cancelled'
+  | 'budget'
+  | 'request';
+
+export class LLMError extends Error {
+  constructor(message: string, public kind: LLMErrorKind, public status?: number) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  // Transient failures worth retrying with backoff
+  get retryable(): boolean {
+    return this.kind === 'rate-limit' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+export class LLMAuthError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, 'auth', status);
+    this.name = 'LLMAuthError';
+  }
+}
+
+export class LLMQuotaError extends LLMError {
+  constructor(message: string, status?: number) {
+    super(message, 'quota', status);
+    this.name = 'LLMQuotaError';
+  }
+}
+
+export class LLMRateLimitError extends LLMError {
+  constructor(message: string, public retryAfterMs?: number, status = 429) {
+    super(message, 'rate-limit', status);
+    this.name = 'LLMRateLimitError';
+  }
+}
+
+export class LLMServerError extends LLMError {
+  constructor(message: string, status?: number, public retryAfterMs?: number) {
+    super(message, 'server', status);
+    this.name = 'LLMServerError';
+  }
+}
+
+export class LLMNetworkError extends LLMError {
+  constructor(message = 'Could not reach the AI provider.') {
+    super(message, 'network');
+    this.name = 'LLMNetworkError';
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(timeoutMs: number) {
+    super(`The AI provider did not respond within ${Math.round(timeoutMs / 1000)} seconds.`, 'timeout');
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMContentFilterError extends LLMError {
+  constructor(message = 'The response was blocked by the provider\'s content filter.', status?: number) {
+    super(message, 'content-filter', status);
+    this.name = 'LLMContentFilterError';
+  }
+}
+
+export class LLMCancelledError extends LLMError {
+  constructor() {
+    super('The request was cancelled.', 'cancelled');
+    this.name = 'LLMCancelledError';
+  }
+}
+
+// Raised locally, before any request, when the user's monthly spending cap is reached
+export class LLMBudgetExceededError extends LLMError {
+  constructor(public spentUsd: number, public budgetUsd: number) {
+    super(`This month's AI spend ($${spentUsd.toFixed(2)}) has reached your $${budgetUsd.toFixed(2)} budget.`, 'budget');
+    this.name = 'LLMBudgetExceededError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Classify a failed HTTP response from any provider
+export const toLLMError = async (response: Response, label: string): Promise<LLMError> => {
+  const body = await response.json().catch(() => ({}));
+  const detail = body.error?.message || body.message || response.statusText || 'Request failed';
+  const code = `${body.error?.code || ''} ${body.error?.type || ''}`;
+  const message = `${label} API error: ${detail}`;
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+  if (response.status === 401 || response.status === 403) {
+    return new LLMAuthError(message, response.status);
+  }
+  if (/insufficient_quota|billing|credit/i.test(code) || response.status === 402) {
+    return new LLMQuotaError(message, response.status);
+  }
+  if (response.status === 429) {
+    return new LLMRateLimitError(message, retryAfterMs);
+  }
+  if (/content_filter|content_policy/i.test(code)) {
+    return new LLMContentFilterError(message, response.status);
+  }
+  if (response.status >= 500) {
+    return new LLMServerError(message, response.status, retryAfterMs);
+  }
+  return new LLMError(message, 'request', response.status);
+};
+
+// User-facing title and description for an LLM failure
+export const describeLLMError = (error: unknown): { title: string; description: string } => {
+  if (!(error instanceof LLMError)) {
+    return {
+      title: 'Something Went Wrong',
+      description: error instanceof Error ? error.message : 'Please try again.'
+    };
+  }
+
+  switch (error.kind) {
+    case 'auth':
+      return { title: 'API Key Rejected', description: 'Your API key is invalid or lacks access to this model. Check it in Settings.' };
+    case 'quota':
+      return { title: 'Quota Exceeded', description: 'Your provider account has run out of credits. Check your plan and billing.' };
+    case 'rate-limit':
+      return { title: 'Rate Limited', description: 'The provider is receiving too many requests. Please wait a moment and try again.' };
+    case 'server':
+      return { title: 'Provider Unavailable', description: 'The AI provider is having problems right now. Please try again shortly.' };
+    case 'network':
+      return { title: 'Connection Problem', description: 'Could not reach the AI provider. Check your internet connection or provider URL.' };
+    case 'timeout':
+      return { title: 'Request Timed Out', description: `${error.message} You can raise the timeout in Settings.` };
+    case 'content-filter':
+      return { title: 'Response Blocked', description: 'The provider\'s content filter blocked this response. Try rephrasing your request.' };
+    case 'cancelled':
+      return { title: 'Cancelled', description: 'The request was stopped.' };
+    case 'budget':
+      return { title: 'Monthly Budget Reached', description: `${error.message} Raise or remove the cap in Settings to continue.` };
+    default:
+      return { title: 'Request Failed', description: error.message };
+  }
+};
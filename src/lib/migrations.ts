@@ -0,0 +1,104 @@
+import type { Transaction } from 'dexie';
+
+// Declared schema versions of SkillLeadDB, oldest first.
+// Each migration moves the database from the previous version to `version`: `stores` lists new or changed
+// tables, `upgrade` transforms rows already in IndexedDB, and `upgradeBackup` applies the same transform to
+// backup files exported at an older version so they can still be imported.
+
+export type BackupTables = Record<string, unknown[]>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  stores: Record<string, string | null>;
+  upgrade?: (tx: Transaction) => Promise<void>;
+  upgradeBackup?: (data: BackupTables) => BackupTables;
+}
+
+type AnalysisRow = { id?: number; userId: number; createdAt: Date | string; version?: number };
+
+// Analyses used to be saved as version 1; number each user's analyses in the order they were created.
+// Rows without a userId are left as they are.
+const numberAnalysisVersions = <T>(analyses: T[]): T[] => {
+  const rows = analyses.filter((row): row is T & AnalysisRow =>
+    !!row && typeof row === 'object' && typeof (row as Partial<AnalysisRow>).userId === 'number'
+  );
+  const ordered = [...rows].sort((a, b) =>
+    new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || (a.id ?? 0) - (b.id ?? 0)
+  );
+  const counts = new Map<number, number>();
+  const versions = new Map<T, number>();
+  for (const analysis of ordered) {
+    const version = (counts.get(analysis.userId) ?? 0) + 1;
+    counts.set(analysis.userId, version);
+    versions.set(analysis, version);
+  }
+  return analyses.map(analysis => (versions.has(analysis) ? { ...analysis, version: versions.get(analysis) } : analysis));
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Users, profiles, analyses, chat and settings',
+    stores: {
+      users: '++id, name, role, createdAt, isGuest',
+      studentProfiles: '++id, userId, status, updatedAt',
+      professionalProfiles: '++id, userId, status, updatedAt',
+      analyses: '++id, userId, latest, createdAt, version',
+      chatThreads: '++id, userId, createdAt',
+      chatMessages: '++id, threadId, role, createdAt',
+      settings: '++id, updatedAt'
+    }
+  },
+  {
+    version: 2,
+    description: 'Resumable analysis runs',
+    stores: {
+      analysisRuns: '++id, userId, status, updatedAt'
+    }
+  },
+  {
+    version: 3,
+    description: 'Usage and cost ledger',
+    stores: {
+      usageRecords: '++id, userId, [userId+createdAt], purpose, threadId, analysisRunId'
+    }
+  },
+  {
+    version: 4,
+    description: 'Response cache',
+    stores: {
+      responseCache: '++id, &key, userId, expiresAt'
+    }
+  },
+  {
+    version: 5,
+    description: 'Number existing analysis versions per user',
+    stores: {},
+    // Version, userId and createdAt stay plaintext on sealed records, so this works without the vault key
+    upgrade: async (tx) => {
+      const analyses = tx.table<AnalysisRow>('analyses');
+      await analyses.bulkPut(numberAnalysisVersions(await analyses.toArray()));
+    },
+    upgradeBackup: (data) => ({
+      ...data,
+      analyses: Array.isArray(data.analyses) ? numberAnalysisVersions(data.analyses) : data.analyses
+    })
+  },
+  {
+    version: 6,
+    description: 'Snapshot taken before an import, for undo',
+    stores: {
+      importSnapshots: '++id, createdAt'
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Apply the backup transforms of every migration after `fromVersion`
+export const upgradeBackupTables = (data: BackupTables, fromVersion: number): BackupTables => {
+  return MIGRATIONS
+    .filter(migration => migration.version > fromVersion && migration.upgradeBackup)
+    .reduce((current, migration) => migration.upgradeBackup!(current), data);
+};
@@ -0,0 +1,719 @@
+import type { OpenAIMessage } from './openai';
+import type { LLMProvider, ProviderSettings, ToolCall, ToolDefinition } from './providers';
+import { LLMContentFilterError, LLMNetworkError, LLMRateLimitError, LLMServerError } from './llmErrors';
+import { estimateTokens, estimateMessageTokens } from './tokens';
+
+// Offline provider answering from rule-based templates matched against the user's profile.
+// Replies depend only on the prompt, so demo runs are repeatable and the app works without network.
+
+export const MOCK_MODEL = 'mock-career-v1';
+
+// Demo mode uses the mock regardless of the provider the user selected
+export const DEMO_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'mock',
+  model: MOCK_MODEL,
+  mockLatencyMs: 600
+};
+
+const DEFAULT_LATENCY_MS = 300;
+const TOKEN_DELAY_MS = 25;
+
+interface Course {
+  name: string;
+  provider: string;
+}
+
+interface CareerTemplate {
+  title: string;
+  keywords: string[];
+  roles: string[];
+  industries: string[];
+  riskFactors: string[];
+  mitigations: string[];
+  impact: string;
+  scope: string;
+  futureDemand: string;
+  marketOutlook: string;
+  core: string[];
+  supporting: string[];
+  certifications: string[];
+  tools: string[];
+  projects: string[];
+  freeCourses: Course[];
+  paidCourses: Course[];
+  communities: string[];
+  interviewTopics: string[];
+}
+
+const CAREER_TEMPLATES: CareerTemplate[] = [
+  {
+    title: 'Full-Stack Developer',
+    keywords: ['javascript', 'typescript', 'react', 'node', 'node.js', 'html', 'css', 'web', 'frontend', 'backend', 'full-stack', 'software', 'programming', 'coding', 'java', 'python', 'api'],
+    roles: ['Frontend Developer', 'Backend Developer', 'Full-Stack Engineer'],
+    industries: ['Technology', 'Fintech', 'E-commerce'],
+    riskFactors: ['Crowded entry-level market', 'Fast-moving frameworks'],
+    mitigations: ['Ship a portfolio of deployed projects', 'Focus on fundamentals over frameworks'],
+    impact: 'Builds the products people use every day, end to end',
+    scope: 'User interfaces, APIs, databases and deployment',
+    futureDemand: 'Steady growth as more businesses move online',
+    marketOutlook: 'Strong in tech hubs and among remote-first companies',
+    core: ['JavaScript', 'React', 'Node.js', 'SQL'],
+    supporting: ['Git', 'Testing', 'REST API design'],
+    certifications: ['AWS Certified Developer – Associate', 'Meta Front-End Developer Certificate'],
+    tools: ['React', 'Node.js', 'PostgreSQL', 'Docker', 'GitHub Actions'],
+    projects: ['A personal portfolio site with a blog', 'A full-stack task manager with authentication', 'An open-source contribution to a popular library'],
+    freeCourses: [{ name: 'The Odin Project', provider: 'The Odin Project' }, { name: 'Full Stack Open', provider: 'University of Helsinki' }],
+    paidCourses: [{ name: 'Meta Front-End Developer Certificate', provider: 'Coursera' }, { name: 'The Complete Web Development Bootcamp', provider: 'Udemy' }],
+    communities: ['Local JavaScript meetups', 'dev.to', 'Frontend Mentor challenges'],
+    interviewTopics: ['JavaScript closures and async', 'React state management', 'REST API design', 'SQL joins']
+  },
+  {
+    title: 'Data Analyst',
+    keywords: ['excel', 'sql', 'data', 'analytics', 'analysis', 'statistics', 'tableau', 'power bi', 'reporting', 'dashboards', 'math', 'economics', 'business'],
+    roles: ['Data Analyst', 'Business Intelligence Analyst', 'Reporting Analyst'],
+    industries: ['Retail', 'Healthcare', 'Finance'],
+    riskFactors: ['Automation of routine reporting', 'Roles vary widely in depth'],
+    mitigations: ['Learn to tell stories with data', 'Add Python to move beyond spreadsheets'],
+    impact: 'Turns raw data into decisions for every part of a business',
+    scope: 'Querying, cleaning, visualizing and presenting data',
+    futureDemand: 'High as organizations rely on data for decisions',
+    marketOutlook: 'Openings across nearly every industry, many hybrid',
+    core: ['SQL', 'Excel', 'Data Visualization', 'Statistics'],
+    supporting: ['Python', 'Business Communication', 'Data Cleaning'],
+    certifications: ['Google Data Analytics Certificate', 'Microsoft Power BI Data Analyst'],
+    tools: ['SQL', 'Excel', 'Tableau', 'Power BI', 'Python (pandas)'],
+    projects: ['A dashboard exploring a public dataset', 'A sales analysis with clear recommendations', 'An automated weekly report in Python'],
+    freeCourses: [{ name: 'SQL for Data Analysis', provider: 'Mode' }, { name: 'Data Analysis with Python', provider: 'freeCodeCamp' }],
+    paidCourses: [{ name: 'Google Data Analytics Certificate', provider: 'Coursera' }, { name: 'Tableau Desktop Specialist prep', provider: 'Udemy' }],
+    communities: ['Tableau Public community', 'Local data meetups', 'Kaggle discussions'],
+    interviewTopics: ['SQL window functions', 'Explaining an analysis to non-experts', 'A/B test basics', 'Dashboard design']
+  },
+  {
+    title: 'Machine Learning Engineer',
+    keywords: ['machine learning', 'ml', 'ai', 'deep learning', 'python', 'tensorflow', 'pytorch', 'data science', 'statistics', 'nlp', 'computer vision', 'research', 'math'],
+    roles: ['Machine Learning Engineer', 'Data Scientist', 'Applied AI Engineer'],
+    industries: ['Technology', 'Healthcare', 'Autonomous Systems'],
+    riskFactors: ['High bar for math and engineering', 'Competitive for junior roles'],
+    mitigations: ['Publish end-to-end projects with real data', 'Start in a data role and move over'],
+    impact: 'Builds systems that learn from data and power new products',
+    scope: 'Data pipelines, model training, evaluation and deployment',
+    futureDemand: 'Very high as AI features reach every product',
+    marketOutlook: 'Concentrated in tech hubs with growing remote demand',
+    core: ['Python', 'Machine Learning', 'Linear Algebra', 'Model Evaluation'],
+    supporting: ['SQL', 'MLOps', 'Cloud Platforms'],
+    certifications: ['TensorFlow Developer Certificate', 'AWS Certified Machine Learning – Specialty'],
+    tools: ['Python', 'PyTorch', 'scikit-learn', 'Jupyter', 'MLflow'],
+    projects: ['A model trained and deployed behind an API', 'A Kaggle competition write-up', 'A reproduction of a well-known paper'],
+    freeCourses: [{ name: 'Practical Deep Learning for Coders', provider: 'fast.ai' }, { name: 'Machine Learning Crash Course', provider: 'Google' }],
+    paidCourses: [{ name: 'Machine Learning Specialization', provider: 'Coursera (DeepLearning.AI)' }, { name: 'Deep Learning Specialization', provider: 'Coursera (DeepLearning.AI)' }],
+    communities: ['Kaggle', 'Hugging Face community', 'Local AI meetups'],
+    interviewTopics: ['Bias-variance trade-off', 'Feature engineering', 'Model evaluation metrics', 'System design for ML']
+  },
+  {
+    title: 'UX Designer',
+    keywords: ['design', 'ux', 'ui', 'figma', 'user research', 'prototyping', 'art', 'psychology', 'creative', 'graphic design', 'sketch', 'accessibility'],
+    roles: ['UX Designer', 'Product Designer', 'UX Researcher'],
+    industries: ['Technology', 'Agencies', 'E-commerce'],
+    riskFactors: ['Portfolio-driven hiring', 'Fewer junior openings'],
+    mitigations: ['Document your process in case studies', 'Redesign real products and test with users'],
+    impact: 'Shapes how people experience products and services',
+    scope: 'Research, information architecture, prototyping and testing',
+    futureDemand: 'Stable, with growth in accessibility and AI products',
+    marketOutlook: 'Good in product companies; many remote-friendly teams',
+    core: ['User Research', 'Figma', 'Prototyping', 'Interaction Design'],
+    supporting: ['Accessibility', 'Usability Testing', 'Visual Design'],
+    certifications: ['Google UX Design Certificate', 'NN/g UX Certification'],
+    tools: ['Figma', 'FigJam', 'Maze', 'Notion'],
+    projects: ['A redesign case study of an app you use', 'A usability study with five participants', 'A design system for a small product'],
+    freeCourses: [{ name: 'UX Design Fundamentals', provider: 'Interaction Design Foundation (free articles)' }, { name: 'Figma learning resources', provider: 'Figma' }],
+    paidCourses: [{ name: 'Google UX Design Certificate', provider: 'Coursera' }, { name: 'UX Certification courses', provider: 'Nielsen Norman Group' }],
+    communities: ['ADPList mentoring', 'Local UX meetups', 'Dribbble and Behance'],
+    interviewTopics: ['Portfolio walkthrough', 'Design critique', 'Research methods', 'Whiteboard design challenge']
+  },
+  {
+    title: 'Product Manager',
+    keywords: ['product', 'management', 'leadership', 'strategy', 'business', 'communication', 'agile', 'scrum', 'stakeholder', 'roadmap', 'startup', 'entrepreneurship'],
+    roles: ['Associate Product Manager', 'Product Manager', 'Product Owner'],
+    industries: ['Technology', 'SaaS', 'Fintech'],
+    riskFactors: ['Few true entry-level roles', 'Success is hard to show without a track record'],
+    mitigations: ['Lead a product initiative in your current role', 'Build and launch a small product yourself'],
+    impact: 'Decides what gets built and why, aligning teams around users',
+    scope: 'Discovery, prioritization, roadmaps and launches',
+    futureDemand: 'Solid as companies compete on product quality',
+    marketOutlook: 'Competitive, with strong demand for technical PMs',
+    core: ['Product Discovery', 'Prioritization', 'Stakeholder Communication', 'Metrics'],
+    supporting: ['SQL', 'User Research', 'Agile Delivery'],
+    certifications: ['Certified Scrum Product Owner', 'Pragmatic Institute Foundations'],
+    tools: ['Jira', 'Amplitude', 'Figma', 'Notion'],
+    projects: ['A product teardown with improvement proposals', 'A side product launched with real users', 'A metrics dashboard for a feature'],
+    freeCourses: [{ name: 'Product School resources', provider: 'Product School' }, { name: "Lenny's Newsletter archive", provider: 'Lenny Rachitsky' }],
+    paidCourses: [{ name: 'Digital Product Management', provider: 'Coursera (UVA)' }, { name: 'Product Management Certification', provider: 'Product School' }],
+    communities: ['Mind the Product', 'Local product meetups', 'Product Hunt'],
+    interviewTopics: ['Product sense questions', 'Prioritization frameworks', 'Metrics and trade-offs', 'Stakeholder conflict stories']
+  },
+  {
+    title: 'Cloud & DevOps Engineer',
+    keywords: ['cloud', 'aws', 'azure', 'gcp', 'devops', 'docker', 'kubernetes', 'linux', 'infrastructure', 'networking', 'ci/cd', 'terraform', 'sysadmin'],
+    roles: ['DevOps Engineer', 'Cloud Engineer', 'Site Reliability Engineer'],
+    industries: ['Technology', 'Finance', 'Telecommunications'],
+    riskFactors: ['Broad tool landscape', 'On-call responsibilities'],
+    mitigations: ['Specialize in one cloud first', 'Automate everything you build in public repos'],
+    impact: 'Keeps software reliable, secure and fast to ship',
+    scope: 'Infrastructure as code, CI/CD, monitoring and incident response',
+    futureDemand: 'High as companies continue moving to the cloud',
+    marketOutlook: 'Strong and frequently remote',
+    core: ['Linux', 'AWS', 'Docker', 'CI/CD'],
+    supporting: ['Terraform', 'Kubernetes', 'Networking'],
+    certifications: ['AWS Certified Solutions Architect – Associate', 'Certified Kubernetes Administrator'],
+    tools: ['AWS', 'Terraform', 'Docker', 'Kubernetes', 'GitHub Actions'],
+    projects: ['A containerized app deployed with Terraform', 'A CI/CD pipeline with automated tests', 'A monitoring dashboard with alerts'],
+    freeCourses: [{ name: 'AWS Skill Builder', provider: 'Amazon' }, { name: 'Linux Journey', provider: 'linuxjourney.com' }],
+    paidCourses: [{ name: 'AWS Solutions Architect Associate', provider: 'A Cloud Guru' }, { name: 'Kubernetes for the Absolute Beginners', provider: 'KodeKloud' }],
+    communities: ['DevOps Days', 'CNCF community groups', 'r/devops'],
+    interviewTopics: ['Linux troubleshooting', 'Designing a deployment pipeline', 'Networking basics', 'Incident postmortems']
+  },
+  {
+    title: 'Cybersecurity Analyst',
+    keywords: ['security', 'cybersecurity', 'networking', 'linux', 'hacking', 'ctf', 'forensics', 'risk', 'compliance', 'privacy', 'penetration testing'],
+    roles: ['Security Analyst', 'SOC Analyst', 'Security Engineer'],
+    industries: ['Finance', 'Government', 'Healthcare'],
+    riskFactors: ['Certifications often required', 'Shift work in SOC roles'],
+    mitigations: ['Earn a foundational certification early', 'Practice in home labs and CTFs'],
+    impact: 'Protects organizations and people from attacks',
+    scope: 'Monitoring, incident response, vulnerability management',
+    futureDemand: 'Very high with a persistent talent shortage',
+    marketOutlook: 'Strong everywhere, including public sector roles',
+    core: ['Networking', 'Linux', 'Threat Detection', 'Incident Response'],
+    supporting: ['Python scripting', 'Cloud Security', 'Risk Assessment'],
+    certifications: ['CompTIA Security+', 'Google Cybersecurity Certificate'],
+    tools: ['Wireshark', 'Splunk', 'Nmap', 'Burp Suite'],
+    projects: ['A home lab with logging and alerts', 'CTF write-ups', 'A vulnerability assessment of a test app'],
+    freeCourses: [{ name: 'TryHackMe free rooms', provider: 'TryHackMe' }, { name: 'Cybrary fundamentals', provider: 'Cybrary' }],
+    paidCourses: [{ name: 'Google Cybersecurity Certificate', provider: 'Coursera' }, { name: 'CompTIA Security+ prep', provider: 'Professor Messer / Udemy' }],
+    communities: ['Local OWASP chapter', 'BSides conferences', 'CTFtime events'],
+    interviewTopics: ['OSI model and common ports', 'Investigating an alert', 'Common web vulnerabilities', 'Incident response steps']
+  },
+  {
+    title: 'Digital Marketing Specialist',
+    keywords: ['marketing', 'social media', 'content', 'writing', 'seo', 'advertising', 'communication', 'branding', 'sales', 'copywriting', 'media'],
+    roles: ['Digital Marketing Specialist', 'Growth Marketer', 'Content Strategist'],
+    industries: ['E-commerce', 'Agencies', 'Consumer Brands'],
+    riskFactors: ['Results are closely measured', 'Platforms change often'],
+    mitigations: ['Run small campaigns with real budgets', 'Learn analytics alongside creative work'],
+    impact: 'Connects products with the people who need them',
+    scope: 'Content, SEO, paid campaigns, email and analytics',
+    futureDemand: 'Steady, with growth in performance and content roles',
+    marketOutlook: 'Many openings, often remote or hybrid',
+    core: ['SEO', 'Content Strategy', 'Paid Advertising', 'Marketing Analytics'],
+    supporting: ['Copywriting', 'Email Marketing', 'A/B Testing'],
+    certifications: ['Google Ads Certification', 'HubSpot Content Marketing Certification'],
+    tools: ['Google Analytics', 'Google Ads', 'HubSpot', 'Canva'],
+    projects: ['Grow a niche blog or social account', 'A campaign plan for a local business', 'An SEO audit with measurable fixes'],
+    freeCourses: [{ name: 'Fundamentals of Digital Marketing', provider: 'Google Digital Garage' }, { name: 'HubSpot Academy courses', provider: 'HubSpot' }],
+    paidCourses: [{ name: 'Google Digital Marketing & E-commerce Certificate', provider: 'Coursera' }, { name: 'Growth Marketing Minidegree', provider: 'CXL' }],
+    communities: ['Local marketing meetups', 'GrowthHackers', 'Online Geniuses'],
+    interviewTopics: ['Campaign results you drove', 'Funnel metrics', 'SEO basics', 'Budget allocation']
+  }
+];
+
+// Facts the templates draw on, read from the profile JSON in the prompt
+interface ProfileFacts {
+  profileType: 'student' | 'professional';
+  skills: Array<{ name: string; level: string }>;
+  interests: string[];
+  locations: string[];
+  preferences: {
+    timeline?: string;
+    budget?: string;
+    remote?: boolean;
+    relocation?: boolean;
+    learningStyle?: string;
+  };
+  summaryLead: string;
+  skillText: string;
+  interestText: string;
+  otherText: string;
+}
+
+type LooseProfile = Record<string, unknown>;
+
+const asArray = <T = unknown>(value: unknown): T[] => (Array.isArray(value) ? value : []);
+const asStrings = (value: unknown): string[] => asArray(value).filter((item): item is string => typeof item === 'string' && !!item.trim());
+
+// Parse a JSON block that follows a label and ends at the next blank line
+const readJsonSection = (content: string, label: string): unknown => {
+  const start = content.indexOf(label);
+  if (start === -1) return undefined;
+  const from = start + label.length;
+  const end = content.indexOf('\n\n', from);
+  try {
+    return JSON.parse(content.slice(from, end === -1 ? undefined : end));
+  } catch {
+    return undefined;
+  }
+};
+
+const readProfileFacts = (content: string): ProfileFacts => {
+  const profile = (readJsonSection(content, 'Profile Data: ') || {}) as LooseProfile;
+  const profileType = /Profile Type: professional/.test(content) ? 'professional' : 'student';
+  const skills = asArray<{ name?: string; level?: string }>(profile.skills)
+    .filter(skill => skill?.name)
+    .map(skill => ({ name: skill.name!, level: skill.level || 'Beginner' }));
+  const interests = [...asStrings(profile.interests), ...asStrings(profile.desiredRoles)];
+  const answers = [...content.matchAll(/^A: (.+)$/gm)].map(match => match[1]);
+
+  const education = asArray<{ degree?: string; major?: string }>(profile.education);
+  const projects = asArray<{ technologies?: unknown; name?: string; description?: string }>(profile.projects);
+  const internships = asArray<{ role?: string }>(profile.internships);
+  const major = education.map(entry => entry.major).find(Boolean);
+  const topSkills = skills.slice(0, 3).map(skill => skill.name).join(', ');
+
+  const summaryLead = profileType === 'professional'
+    ? `A ${profile.role || 'professional'} with ${Number(profile.yearsExperience) || 0} years of experience`
+    : `A student${major ? ` studying ${major}` : ''}`;
+
+  return {
+    profileType,
+    skills,
+    interests,
+    locations: asStrings(profile.preferredLocations),
+    preferences: (profile.preferences || {}) as ProfileFacts['preferences'],
+    summaryLead: `${summaryLead}${topSkills ? `, skilled in ${topSkills}` : ''}`,
+    skillText: [...skills.map(skill => skill.name), ...asStrings(profile.stack)].join(' ').toLowerCase(),
+    // Answers to follow-up questions count as stated interests
+    interestText: [...interests, ...asStrings(profile.domains), ...answers].join(' ').toLowerCase(),
+    otherText: [
+      major,
+      profile.role,
+      ...education.map(entry => entry.degree),
+      ...internships.map(internship => internship.role),
+      ...projects.flatMap(project => [project.name, project.description, ...asStrings(project.technologies)]),
+      ...asStrings(profile.certifications)
+    ].filter(Boolean).join(' ').toLowerCase()
+  };
+};
+
+const containsKeyword = (text: string, keyword: string) => {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+};
+
+// Stable string hash, used to break ties between equally matched templates
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+interface RankedTemplate {
+  template: CareerTemplate;
+  score: number;
+  matched: string[];
+  fitScore: number;
+}
+
+// Interests weigh most, then listed skills, then everything else in the profile
+const rankTemplates = (facts: ProfileFacts): RankedTemplate[] => {
+  const seed = `${facts.skillText}|${facts.interestText}`;
+  return CAREER_TEMPLATES
+    .map(template => {
+      const matched: string[] = [];
+      let score = 0;
+      for (const keyword of template.keywords) {
+        const weight = (containsKeyword(facts.interestText, keyword) ? 3 : 0) +
+          (containsKeyword(facts.skillText, keyword) ? 2 : 0) +
+          (containsKeyword(facts.otherText, keyword) ? 1 : 0);
+        if (weight > 0) matched.push(keyword);
+        score += weight;
+      }
+      return { template, score, matched, fitScore: Math.min(96, 58 + score * 4) };
+    })
+    .sort((a, b) => b.score - a.score || hashString(seed + a.template.title) - hashString(seed + b.template.title));
+};
+
+const describeFit = (ranked: RankedTemplate) => {
+  if (ranked.matched.length === 0) {
+    return `A path you could grow into by building ${ranked.template.core[0]} and ${ranked.template.core[1]} from the ground up.`;
+  }
+  return `Builds on your background in ${ranked.matched.slice(0, 3).join(', ')}.`;
+};
+
+const hasSkill = (facts: ProfileFacts, skill: string) => containsKeyword(`${facts.skillText} ${facts.otherText}`, skill.toLowerCase());
+
+const TIMELINE_LABELS: Record<string, string> = {
+  '3-months': 'three months',
+  '6-months': 'six months',
+  '12-months': 'a year'
+};
+
+const LEARNING_FORMATS: Record<string, string> = {
+  'self-paced': 'Self-paced online course',
+  'structured': 'Structured program',
+  'mentored': 'Mentored program'
+};
+
+const describeConstraints = (facts: ProfileFacts): string[] => {
+  const { timeline, budget, remote, relocation, learningStyle } = facts.preferences;
+  return [
+    timeline && `Wants to make progress within ${TIMELINE_LABELS[timeline] || timeline}`,
+    budget && `Prefers ${budget.replace('-', ' ')} learning resources`,
+    remote !== undefined && (remote ? 'Open to remote work' : 'Prefers on-site work'),
+    relocation !== undefined && (relocation ? 'Willing to relocate' : 'Not planning to relocate'),
+    learningStyle && `Learns best with a ${learningStyle.replace('-', ' ')} approach`,
+    facts.locations.length > 0 && `Prefers working in ${facts.locations.join(', ')}`
+  ].filter((item): item is string => typeof item === 'string');
+};
+
+// Plan A as chosen in the planning stage, falling back to the best match
+const findPlanA = (content: string, ranked: RankedTemplate[]): RankedTemplate => {
+  const findings = readJsonSection(content, 'Findings from earlier steps:\n') as
+    { planning?: { plans?: { A?: { title?: string } } } } | undefined;
+  const title = findings?.planning?.plans?.A?.title;
+  return ranked.find(entry => entry.template.title === title) || ranked[0];
+};
+
+const pickCourses = (template: CareerTemplate, budget?: string): Course[] => {
+  if (budget === 'free') return template.freeCourses;
+  if (budget === 'premium') return [...template.paidCourses, ...template.freeCourses];
+  return [template.freeCourses[0], template.paidCourses[0], template.freeCourses[1]];
+};
+
+const respondToStage = (content: string): Record<string, unknown> => {
+  const facts = readProfileFacts(content);
+  const ranked = rankTemplates(facts);
+  const shape = content.slice(content.indexOf('with this shape:'));
+
+  if (shape.includes('"roadmap"')) {
+    const planA = findPlanA(content, ranked);
+    const { template } = planA;
+    const others = ranked.filter(entry => entry !== planA).slice(0, 2).map(entry => entry.template.title);
+    const format = LEARNING_FORMATS[facts.preferences.learningStyle || ''] || 'Online course';
+    const toLearn = [...template.core, ...template.supporting].filter(skill => !hasSkill(facts, skill));
+
+    return {
+      summary: `${facts.summaryLead}. ${template.title} is your strongest match (${planA.fitScore}% fit): ${describeFit(planA).toLowerCase()} ${others.join(' and ')} remain strong alternatives.`,
+      roadmap: {
+        skillsToLearn: toLearn.slice(0, 6).map(skill => ({
+          name: skill,
+          level: template.core.includes(skill) ? 'Intermediate' : 'Beginner'
+        })),
+        coursesAndResources: pickCourses(template, facts.preferences.budget).map(course => ({
+          ...course,
+          type: format,
+          reason: `Covers ${template.core.slice(0, 2).join(' and ')} for ${template.title} roles`
+        })),
+        communitiesAndEvents: template.communities,
+        interviewPrepTopics: template.interviewTopics,
+        nextActions: [
+          `Start ${pickCourses(template, facts.preferences.budget)[0].name} this week`,
+          `Begin your first portfolio project: ${template.projects[0].toLowerCase()}`,
+          facts.preferences.learningStyle === 'mentored'
+            ? `Find a mentor through ${template.communities[0]}`
+            : `Join ${template.communities[0]} to learn from practitioners`,
+          `Update your resume to highlight ${planA.matched.slice(0, 2).join(' and ') || 'transferable skills'}`
+        ]
+      }
+    };
+  }
+
+  if (shape.includes('"planADeepDive"')) {
+    const { template } = findPlanA(content, ranked);
+    const { remote, relocation } = facts.preferences;
+    const places = facts.locations.length > 0 ? facts.locations.join(', ') : 'major tech hubs';
+
+    return {
+      planADeepDive: {
+        impact: template.impact,
+        scope: template.scope,
+        futureDemand: template.futureDemand,
+        marketOutlook: template.marketOutlook,
+        geoNotes: `Look for openings in ${places}${remote ? ', plus remote roles' : ''}${relocation ? '; relocating widens your options further' : ''}.`,
+        competencies: {
+          core: template.core,
+          supporting: template.supporting,
+          certifications: template.certifications
+        },
+        toolsStack: template.tools,
+        portfolio: { suggestedProjects: template.projects },
+        timeline: {
+          month0_3: [`Learn ${template.core[0]} and ${template.core[1]} fundamentals`, `Start ${template.projects[0].toLowerCase()}`],
+          month3_6: [`Build ${template.projects[1].toLowerCase()}`, `Prepare for ${template.certifications[0]}`],
+          month6_12: [`Apply for ${template.roles[0]} roles`, `Complete ${template.projects[2].toLowerCase()}`, `Network through ${template.communities[0]}`]
+        },
+        risks: template.riskFactors
+      }
+    };
+  }
+
+  if (shape.includes('"plans"')) {
+    const [a, b, c] = ranked;
+    return {
+      plans: {
+        A: {
+          title: a.template.title,
+          rationale: describeFit(a),
+          fitScore: a.fitScore,
+          roles: a.template.roles,
+          industries: a.template.industries,
+          riskFactors: a.template.riskFactors,
+          mitigations: a.template.mitigations
+        },
+        B: { title: b.template.title, rationale: describeFit(b) },
+        C: { title: c.template.title, rationale: describeFit(c) }
+      }
+    };
+  }
+
+  if (shape.includes('"opportunities"')) {
+    return {
+      opportunities: ranked.slice(0, 6).map(entry => ({
+        title: entry.template.title,
+        rationale: describeFit(entry),
+        fit: entry.fitScore >= 80 ? 'Strong fit' : entry.fitScore >= 65 ? 'Good fit' : 'Possible fit'
+      }))
+    };
+  }
+
+  if (shape.includes('"clarifications"')) {
+    const answered = content.includes('The user answered these follow-up questions');
+    const questions = [
+      facts.interests.length === 0 && 'Which fields or kinds of work interest you most?',
+      facts.skills.length === 0 && 'Which skills or tools are you most comfortable with today?',
+      facts.locations.length === 0 && 'Where would you like to work, and are you open to remote roles?'
+    ].filter((question): question is string => typeof question === 'string');
+    const needsClarification = questions.length > 0 && !answered;
+
+    return {
+      status: needsClarification ? 'needs_clarification' : 'complete',
+      clarifications: needsClarification ? questions : [],
+      interestsConfirmed: facts.interests.length > 0 || answered
+    };
+  }
+
+  // Profile understanding
+  const gaps = ranked[0].template.core.filter(skill => !hasSkill(facts, skill));
+  return {
+    summary: `${facts.summaryLead}${facts.interests.length > 0 ? `, interested in ${facts.interests.slice(0, 3).join(', ')}` : ''}.`,
+    strengths: facts.skills
+      .filter(skill => skill.level !== 'Beginner')
+      .map(skill => skill.name)
+      .slice(0, 5),
+    gaps: gaps.slice(0, 4),
+    interests: facts.interests,
+    constraints: describeConstraints(facts)
+  };
+};
+
+// Chat replies keyed on the topic of the question
+const CHAT_TOPICS: Array<{ pattern: RegExp; reply: (plan: string) => string }> = [
+  {
+    pattern: /timeline|month|schedule|how long|when/i,
+    reply: (plan) => `A realistic path into ${plan} looks like this:\n\n- **Months 0-3:** learn the fundamentals and start one small project\n- **Months 3-6:** build a larger portfolio project and study for a certification\n- **Months 6-12:** apply widely, network and keep shipping work you can show\n\nIf you can study more hours each week, you can compress the first two phases.`
+  },
+  {
+    pattern: /course|learn|skill|resource|study|certif/i,
+    reply: (plan) => `For ${plan}, focus your learning in this order:\n\n1. The core skills listed in your roadmap, one at a time\n2. A hands-on project after each course so the knowledge sticks\n3. One recognized certification once you have the basics\n\nFree resources are enough to start; pay for structure only if you find it hard to stay consistent.`
+  },
+  {
+    pattern: /interview|prepar|resume|cv/i,
+    reply: (plan) => `To prepare for ${plan} interviews:\n\n- Practise explaining two projects end to end, including trade-offs\n- Review the interview topics in your roadmap and write short notes on each\n- Do at least three mock interviews before applying to your top choices\n- Tailor your resume to each posting's main requirements`
+  },
+  {
+    pattern: /project|portfolio|build/i,
+    reply: (plan) => `Good portfolio projects for ${plan} solve a real problem and are easy to demo. Start with the first suggested project in your deep dive, publish it with a short write-up of your decisions, then iterate based on feedback.`
+  },
+  {
+    pattern: /salary|pay|market|job|demand|remote/i,
+    reply: (plan) => `Demand for ${plan} is healthy, though entry-level roles are competitive. Check recent postings in your preferred locations to calibrate salary expectations, and prioritize companies where your existing experience gives you an edge.`
+  }
+];
+
+const DEMO_NOTE = '_Demo response generated offline. Configure an AI provider in Settings for personalized answers._';
+
+const chatContext = (messages: OpenAIMessage[]) => {
+  return messages.filter(message => message.role === 'system').map(message => message.content).join('\n');
+};
+
+interface LooseAnalysis {
+  plans?: Record<'A' | 'B' | 'C', { title?: string } | undefined>;
+  planADeepDive?: { timeline?: Record<'month0_3' | 'month3_6' | 'month6_12', unknown> };
+  roadmap?: { coursesAndResources?: Array<{ name?: string }> };
+}
+
+// The analysis sent as chat context; absent when it was trimmed to fit the prompt
+const readChatAnalysis = (context: string): LooseAnalysis => {
+  const label = "User's career analysis: ";
+  const start = context.indexOf(label);
+  if (start === -1) return {};
+  const end = context.indexOf('\n', start);
+  try {
+    return JSON.parse(context.slice(start + label.length, end === -1 ? undefined : end));
+  } catch {
+    return {};
+  }
+};
+
+// Tool calls for requests to change the plan, keyed on the wording of the question
+const proposeChanges = (context: string, question: string, tools: ToolDefinition[]): Omit<ToolCall, 'id'>[] => {
+  const available = new Set(tools.map(tool => tool.name));
+  const analysis = readChatAnalysis(context);
+  const calls: Omit<ToolCall, 'id'>[] = [];
+
+  const swap = question.match(/\b(?:switch|swap|change|go with|prefer|focus on)\b.*\bplan\b(?:\s+([bc])\b)?/i);
+  if (swap && available.has('swap_primary_plan')) {
+    const plan = (swap[1] || 'B').toUpperCase();
+    calls.push({
+      name: 'swap_primary_plan',
+      arguments: { plan, reason: `You asked to focus on ${analysis.plans?.[plan as 'B' | 'C']?.title || `Plan ${plan}`} instead.` }
+    });
+  }
+
+  const timeline = analysis.planADeepDive?.timeline;
+  if (/\b(faster|sooner|shorter|compress|speed up|accelerate|quicker)\b/i.test(question) && timeline && available.has('update_timeline')) {
+    calls.push({
+      name: 'update_timeline',
+      arguments: {
+        month0_3: [...asStrings(timeline.month0_3), ...asStrings(timeline.month3_6)],
+        month3_6: asStrings(timeline.month6_12),
+        month6_12: ['Keep applying and improving your portfolio based on feedback'],
+        reason: 'Each phase is moved forward so you reach job applications within six months.'
+      }
+    });
+  }
+
+  const preferences: Record<string, unknown> = {};
+  if (/\b(?:only|prefer|want)\b.*\bfree\b|can'?t afford|cannot afford/i.test(question)) preferences.budget = 'free';
+  if (/\b(?:only|prefer|want)\b.*\bremote\b/i.test(question)) preferences.remote = true;
+  if (Object.keys(preferences).length > 0 && available.has('adjust_preferences')) {
+    calls.push({ name: 'adjust_preferences', arguments: { ...preferences, reason: 'Updated to match what you asked for.' } });
+  }
+
+  if (/\badd\b.*\b(course|resource|book|class)\b/i.test(question) && available.has('add_resource')) {
+    const template = CAREER_TEMPLATES.find(entry => entry.title === analysis.plans?.A?.title) || CAREER_TEMPLATES[0];
+    const existing = (analysis.roadmap?.coursesAndResources || []).map(resource => resource.name);
+    const course = [...template.freeCourses, ...template.paidCourses].find(entry => !existing.includes(entry.name));
+    if (course) {
+      calls.push({
+        name: 'add_resource',
+        arguments: { ...course, type: 'Online course', reason: `Strengthens ${template.core[0]} for ${template.title} roles` }
+      });
+    }
+  }
+
+  return calls;
+};
+
+const describeProposal = (calls: Omit<ToolCall, 'id'>[]): string => {
+  const labels: Record<string, string> = {
+    swap_primary_plan: 'Swap your primary plan',
+    update_timeline: 'Move your timeline milestones earlier',
+    adjust_preferences: 'Update your saved preferences',
+    add_resource: 'Add a course to your roadmap'
+  };
+  return `I've drafted these changes:\n\n${calls.map(call => `- ${labels[call.name]}`).join('\n')}\n\nReview them below. Nothing is saved until you accept.\n\n${DEMO_NOTE}`;
+};
+
+const replyToChat = (messages: OpenAIMessage[], question: string): string => {
+  const context = chatContext(messages);
+  const plan = context.match(/"A":\{"title":"((?:[^"\\]|\\.)*)"/)?.[1] || 'your target role';
+  const topic = CHAT_TOPICS.find(entry => entry.pattern.test(question));
+  const answer = topic
+    ? topic.reply(plan)
+    : `That's a good question. Based on your profile and ${plan === 'your target role' ? 'goals' : `your Plan A (${plan})`}, I'd start with the next actions in your roadmap and revisit your plan after a month of steady progress. Ask me about timelines, courses, interviews or projects for more specific advice.`;
+  return `${answer}\n\n${DEMO_NOTE}`;
+};
+
+const summarizeConversation = (prompt: string): string => {
+  const previous = prompt.match(/Summary so far:\n([\s\S]*?)\n\nNew conversation turns:/)?.[1] || '';
+  const questions = [...prompt.matchAll(/^User: (.+)$/gm)].map(match => match[1].slice(0, 80));
+  return `${previous ? `${previous} ` : ''}The user asked about: ${questions.join('; ')}.`.trim();
+};
+
+const respond = (messages: OpenAIMessage[], tools: ToolDefinition[] = []): { reply: string; toolCalls: Omit<ToolCall, 'id'>[] } => {
+  const stagePrompt = messages.find(message => message.role === 'user' && message.content.includes('Return only a JSON object with this shape:'));
+  if (stagePrompt) return { reply: JSON.stringify(respondToStage(stagePrompt.content)), toolCalls: [] };
+
+  const question = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  if (question.includes('New conversation turns:')) return { reply: summarizeConversation(question), toolCalls: [] };
+
+  const toolCalls = tools.length > 0 ? proposeChanges(chatContext(messages), question, tools) : [];
+  return { reply: toolCalls.length > 0 ? describeProposal(toolCalls) : replyToChat(messages, question), toolCalls };
+};
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// Resolves after the delay, or rejects like fetch does when the request is aborted
+const sleep = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Completions so far this session, for failure injection
+let requestCount = 0;
+
+const injectFailure = async (settings: ProviderSettings, signal?: AbortSignal) => {
+  requestCount++;
+  if (!settings.mockFailEvery || requestCount % settings.mockFailEvery !== 0) return;
+
+  switch (settings.mockFailure || 'server') {
+    case 'rate-limit':
+      throw new LLMRateLimitError('Mock API error: injected rate limit', 1000);
+    case 'network':
+      throw new LLMNetworkError();
+    case 'timeout':
+      // Never answer; the caller's timeout aborts the request
+      await new Promise<never>((_, reject) => signal?.addEventListener('abort', () => reject(abortError()), { once: true }));
+      break;
+    case 'content-filter':
+      throw new LLMContentFilterError();
+    default:
+      throw new LLMServerError('Mock API error: injected server error', 503);
+  }
+};
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  requiresKey: false,
+  supportsJsonMode: true,
+  supportsTools: true,
+  defaultModel: MOCK_MODEL,
+  keyPlaceholder: 'No key needed',
+  complete: async (request, settings) => {
+    await sleep(settings.mockLatencyMs ?? DEFAULT_LATENCY_MS, request.signal);
+    await injectFailure(settings, request.signal);
+
+    const { reply, toolCalls } = respond(request.messages, request.tools);
+    let content = reply;
+    if (request.stream) {
+      // Stream word by word, like a model emitting tokens
+      content = '';
+      for (const piece of reply.match(/\s*\S+/g) || []) {
+        await sleep(TOKEN_DELAY_MS, request.signal);
+        content += piece;
+        request.onStream?.(content);
+      }
+    }
+
+    toolCalls.forEach((call, index) => request.onToolCall?.({ ...call, id: `mock_call_${index}` }));
+    request.onUsage?.({
+      promptTokens: estimateMessageTokens(request.messages),
+      completionTokens: estimateTokens(content)
+    });
+    return content;
+  },
+  testConnection: async () => true
+};
@@ -1,32 +1,18 @@
-import { useSettingsStore } from './stores';
-import type { StudentProfile, ProfessionalProfile } from './db';
-
-// OpenAI API Configuration
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
-const MODEL = 'gpt-4-turbo-preview';
-
-// System prompts
-export const ANALYSIS_SYSTEM_PROMPT = `You are SkillLead.AI, a career guidance expert. Your role is to:
-
-1. Validate and clarify user-supplied profile data with targeted follow-up questions when needed; otherwise proceed.
-2. Identify the user's interests and constraints (time, budget, location, remote/on-site, visa, learning style).
-3. Analyze strengths, gaps, and context (student vs professional).
-4. Generate diverse opportunity sets, not biased to highest-paying only.
-5. Output three plans: Plan A (Primary), Plan B, Plan C; choose Plan A as best fit to constraints/interests.
-6. Deep dive on Plan A: impact, scope, future demand, market outlook, geo notes, competencies, certifications, tools, portfolio, risks/mitigations, milestone timeline (0–3, 3–6, 6–12 months).
-7. Provide a concise summary and an actionable roadmap with skills, courses/resources, and best places to learn tailored to the user.
-
-Be clear, structured, and step-by-step. Ask follow-ups when uncertain. Return your response as a structured JSON object.`;
-
-export const CHAT_SYSTEM_PROMPT = `You are the SkillLead.AI assistant. Maintain context from this user's saved analysis.
-
-Key guidelines:
-- Clarify doubts, give concrete examples, and explain simply
-- Revise plans per user requests (timeline, budget, remote, region)
-- Keep responses concise, structured, and practical
-- Ask precise follow-ups when uncertain
-- Never fabricate user data; only use the profile, saved analysis, and chat history
-- Focus on actionable advice and career guidance`;
+import { useAuthStore, useSettingsStore } from './stores';
+import { encryptString, decryptString, isEncryptedPayload } from './crypto';
+import {
+  getProvider,
+  DEFAULT_PROVIDER_SETTINGS,
+  type ProviderId,
+  type ProviderSettings,
+  type TokenUsage,
+  type ToolCall,
+  type ToolDefinition
+} from './providers';
+import { db } from './db';
+import { LLMError, LLMCancelledError, LLMTimeoutError } from './llmErrors';
+import { estimateTokens, estimateMessageTokens } from './tokens';
+import { assertWithinBudget, isFreeProvider, recordUsage, type UsagePurpose } from './usage';
 
 // Types
 export interface OpenAIMessage {
@@ -49,278 +35,297 @@ export interface OpenAIStreamResponse {
   }>;
 }
 
-// API Key management
-export const getApiKey = (): string | null => {
+// Provider selection (stored per user)
+export const getActiveProviderSettings = (): ProviderSettings => {
+  return useAuthStore.getState().currentUser?.providerSettings || DEFAULT_PROVIDER_SETTINGS;
+};
+
+export const saveProviderSettings = async (providerSettings: ProviderSettings) => {
+  const { currentUser, setCurrentUser } = useAuthStore.getState();
+  if (currentUser?.id) {
+    await db.users.update(currentUser.id, { providerSettings, updatedAt: new Date() });
+    setCurrentUser({ ...currentUser, providerSettings });
+  }
+
+  // Key state follows the newly selected provider
+  useSettingsStore.getState().setOpenaiKey(getApiKey(providerSettings.provider) || '');
+  useSettingsStore.getState().setKeyValid(false);
+};
+
+// API Key management (one set of storage slots per provider)
+// Older builds wrote the raw OpenAI key here despite the name; it is only read for migration
+const LEGACY_KEY_SLOT = 'openai-api-key-encrypted';
+
+const sessionKeySlot = (provider: ProviderId) => `${provider}-api-key`;
+const encryptedKeySlot = (provider: ProviderId) => `${provider}-api-key-vault`;
+
+// Keys decrypted with the passphrase, held in memory for this session only
+const unlockedKeys = new Map<ProviderId, string>();
+
+const activeProviderId = () => getActiveProviderSettings().provider;
+
+export const hasEncryptedApiKey = (provider = activeProviderId()): boolean => {
+  return !!localStorage.getItem(encryptedKeySlot(provider));
+};
+
+export const hasLegacyApiKey = (): boolean => {
+  return !!localStorage.getItem(LEGACY_KEY_SLOT);
+};
+
+export const getApiKey = (provider = activeProviderId()): string | null => {
   // First check session storage
-  const sessionKey = sessionStorage.getItem('openai-api-key');
+  const sessionKey = sessionStorage.getItem(sessionKeySlot(provider));
   if (sessionKey) return sessionKey;
 
-  // Then check if user has encrypted local storage enabled
-  const { settings } = useSettingsStore.getState();
-  if (settings?.openaiKeyStored === 'encrypted_local') {
-    const encryptedKey = localStorage.getItem('openai-api-key-encrypted');
-    if (encryptedKey) {
-      // TODO: Implement decryption with user passphrase
-      return null; // For now, return null until decryption is implemented
-    }
-  }
+  // Encrypted keys are only available in memory after unlocking with the passphrase
+  return unlockedKeys.get(provider) || null;
+};
 
-  return null;
+export const isApiKeyLocked = (provider = activeProviderId()): boolean => {
+  return hasEncryptedApiKey(provider) && !getApiKey(provider);
 };
 
-export const setApiKey = (key: string, persistent = false) => {
+export const setApiKey = async (key: string, persistent = false, passphrase?: string, provider = activeProviderId()) => {
   if (persistent) {
-    // Store in localStorage with encryption (TODO: implement encryption)
-    localStorage.setItem('openai-api-key-encrypted', key);
+    if (!passphrase) {
+      throw new Error('A passphrase is required to encrypt your API key.');
+    }
+
+    // Store in localStorage encrypted with a passphrase-derived AES-GCM key
+    const payload = await encryptString(key, passphrase);
+    localStorage.setItem(encryptedKeySlot(provider), JSON.stringify(payload));
+    sessionStorage.removeItem(sessionKeySlot(provider));
+    unlockedKeys.set(provider, key);
+    if (provider === 'openai') {
+      localStorage.removeItem(LEGACY_KEY_SLOT);
+    }
     useSettingsStore.getState().updateSetting('openaiKeyStored', 'encrypted_local');
   } else {
     // Store in sessionStorage (cleared when browser closes)
-    sessionStorage.setItem('openai-api-key', key);
+    sessionStorage.setItem(sessionKeySlot(provider), key);
     useSettingsStore.getState().updateSetting('openaiKeyStored', 'session');
   }
   
-  useSettingsStore.getState().setOpenaiKey(key);
+  if (provider === activeProviderId()) {
+    useSettingsStore.getState().setOpenaiKey(key);
+  }
 };
 
-export const clearApiKey = () => {
-  sessionStorage.removeItem('openai-api-key');
-  localStorage.removeItem('openai-api-key-encrypted');
-  useSettingsStore.getState().setOpenaiKey('');
-  useSettingsStore.getState().setKeyValid(false);
-  useSettingsStore.getState().updateSetting('openaiKeyStored', 'none');
-};
+// Decrypt the persisted key into memory for this session
+export const unlockApiKey = async (passphrase: string, provider = activeProviderId()): Promise<string> => {
+  const stored = localStorage.getItem(encryptedKeySlot(provider));
+  if (!stored) {
+    throw new Error('No encrypted API key found.');
+  }
 
-// Test API key validity
-export const testApiKey = async (key: string): Promise<boolean> => {
+  let payload: unknown;
   try {
-    const response = await fetch(OPENAI_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${key}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: MODEL,
-        messages: [{ role: 'user', content: 'Test' }],
-        max_tokens: 5,
-      }),
-    });
-
-    return response.ok;
+    payload = JSON.parse(stored);
   } catch (error) {
-    console.error('API key test failed:', error);
-    return false;
+    payload = null;
   }
-};
-
-// Make OpenAI API call
-export const callOpenAI = async (
-  messages: OpenAIMessage[],
-  stream = false,
-  onStream?: (content: string) => void
-): Promise<string> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    throw new Error('OpenAI API key not found. Please configure your API key in Settings.');
+  if (!isEncryptedPayload(payload)) {
+    throw new Error('The stored API key is corrupted. Please clear it and save your key again.');
   }
 
-  const response = await fetch(OPENAI_API_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: MODEL,
-      messages,
-      stream,
-      temperature: 0.7,
-      max_tokens: stream ? 2000 : 4000,
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
-    throw new Error(`OpenAI API error: ${error.error?.message || 'Request failed'}`);
+  const key = await decryptString(payload, passphrase);
+  unlockedKeys.set(provider, key);
+  if (provider === activeProviderId()) {
+    useSettingsStore.getState().setOpenaiKey(key);
   }
+  return key;
+};
 
-  if (stream && response.body) {
-    return handleStreamResponse(response.body, onStream);
-  } else {
-    const data = await response.json();
-    return data.choices[0]?.message?.content || '';
-  }
+// Re-encrypt a plaintext OpenAI key left in the legacy slot by older builds
+export const migrateLegacyApiKey = async (passphrase: string) => {
+  const legacyKey = localStorage.getItem(LEGACY_KEY_SLOT);
+  if (!legacyKey) return;
+
+  await setApiKey(legacyKey, true, passphrase, 'openai');
 };
 
-// Handle streaming response
-const handleStreamResponse = async (
-  body: ReadableStream<Uint8Array>,
-  onStream?: (content: string) => void
-): Promise<string> => {
-  const reader = body.getReader();
-  const decoder = new TextDecoder();
-  let fullContent = '';
+export const discardLegacyApiKey = () => {
+  localStorage.removeItem(LEGACY_KEY_SLOT);
+};
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      const chunk = decoder.decode(value);
-      const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed: OpenAIStreamResponse = JSON.parse(data);
-            const content = parsed.choices[0]?.delta?.content || '';
-            if (content) {
-              fullContent += content;
-              onStream?.(fullContent);
-            }
-          } catch (e) {
-            // Skip invalid JSON lines
-          }
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
+export const clearApiKey = (provider = activeProviderId()) => {
+  sessionStorage.removeItem(sessionKeySlot(provider));
+  localStorage.removeItem(encryptedKeySlot(provider));
+  unlockedKeys.delete(provider);
+  if (provider === 'openai') {
+    localStorage.removeItem(LEGACY_KEY_SLOT);
   }
+  useSettingsStore.getState().setOpenaiKey('');
+  useSettingsStore.getState().setKeyValid(false);
+  useSettingsStore.getState().updateSetting('openaiKeyStored', 'none');
+};
 
-  return fullContent;
+// Connection tests send a one-word prompt capped at this many reply tokens
+const TEST_PROMPT_TOKENS = 8;
+const TEST_COMPLETION_TOKENS = 5;
+
+// Test API key validity against the selected provider
+export const testApiKey = async (key: string, providerSettings = getActiveProviderSettings()): Promise<boolean> => {
+  const startedAt = Date.now();
+  const valid = await getProvider(providerSettings.provider).testConnection(providerSettings, key || null);
+  if (valid) {
+    await recordUsage({
+      purpose: 'test',
+      provider: providerSettings.provider,
+      model: providerSettings.model,
+      promptTokens: TEST_PROMPT_TOKENS,
+      completionTokens: TEST_COMPLETION_TOKENS,
+      estimated: true,
+      latencyMs: Date.now() - startedAt
+    });
+  }
+  return valid;
 };
 
-// Generate career analysis
-export const generateCareerAnalysis = async (
-  profile: StudentProfile | ProfessionalProfile,
-  profileType: 'student' | 'professional',
-  onProgress?: (step: string, progress: number) => void
-): Promise<any> => {
-  const messages: OpenAIMessage[] = [
-    { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
-    { 
-      role: 'user', 
-      content: `Please analyze my ${profileType} profile and provide career guidance:
-
-Profile Type: ${profileType}
-Profile Data: ${JSON.stringify(profile, null, 2)}
-
-Please provide a comprehensive analysis with three career plans (A, B, C) and deep dive into Plan A. Return the result as a structured JSON object matching the CareerAnalysis interface.`
-    }
-  ];
+export interface CallOptions {
+  purpose: UsagePurpose;  // Ledger category for the usage record
+  threadId?: number;
+  analysisRunId?: number;
+  providerSettings?: ProviderSettings;  // Overrides the user's selected provider, e.g. for demo mode
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+  maxRetries?: number;
+  maxTokens?: number;
+  tools?: ToolDefinition[];  // Left out for providers without tool support
+  onToolCall?: (call: ToolCall) => void;
+}
 
-  onProgress?.('Analyzing your profile...', 25);
-  
-  try {
-    const response = await callOpenAI(messages, false);
-    onProgress?.('Processing recommendations...', 75);
-    
-    // Parse the JSON response
-    const analysisData = JSON.parse(response);
-    onProgress?.('Complete!', 100);
-    
-    return analysisData;
-  } catch (error) {
-    console.error('Analysis generation failed:', error);
-    throw error;
-  }
+export const DEFAULT_TIMEOUT_SECONDS = 120;
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// Exponential backoff with jitter, preferring the provider's Retry-After when given
+const getRetryDelayMs = (error: LLMError, attempt: number): number => {
+  const retryAfterMs = 'retryAfterMs' in error ? (error.retryAfterMs as number | undefined) : undefined;
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_RETRY_DELAY_MS);
+  const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * backoff * 0.25, MAX_RETRY_DELAY_MS);
 };
 
-// Chat with assistant
-export const chatWithAssistant = async (
-  message: string,
-  context: {
-    profile: StudentProfile | ProfessionalProfile;
-    analysis?: any;
-    chatHistory: Array<{ role: 'user' | 'assistant'; content: string }>;
-  },
-  onStream?: (content: string) => void
-): Promise<string> => {
-  const messages: OpenAIMessage[] = [
-    { role: 'system', content: CHAT_SYSTEM_PROMPT },
-    { 
-      role: 'system', 
-      content: `User's profile: ${JSON.stringify(context.profile, null, 2)}${
-        context.analysis ? `\nUser's career analysis: ${JSON.stringify(context.analysis, null, 2)}` : ''
-      }` 
-    },
-    ...context.chatHistory.map(msg => ({ 
-      role: msg.role as 'user' | 'assistant', 
-      content: msg.content 
-    })),
-    { role: 'user', content: message }
-  ];
-
-  return await callOpenAI(messages, true, onStream);
+const waitForRetry = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new LLMCancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMCancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 };
 
-// Demo mode - returns mock data without API calls
-export const mockAnalysisData = {
-  status: 'complete',
-  clarifications: [],
-  interestsConfirmed: true,
-  plans: {
-    A: {
-      title: 'Full-Stack Developer',
-      rationale: 'Perfect blend of your technical skills and learning preferences',
-      fitScore: 95,
-      roles: ['Frontend Developer', 'Backend Developer', 'Full-Stack Engineer'],
-      industries: ['Technology', 'Fintech', 'E-commerce'],
-      riskFactors: ['High competition', 'Rapid technology changes'],
-      mitigations: ['Continuous learning', 'Building strong portfolio']
-    },
-    B: {
-      title: 'Data Analyst',
-      rationale: 'Leverages analytical skills with moderate learning curve'
-    },
-    C: {
-      title: 'Product Manager',
-      rationale: 'Combines technical background with business strategy'
+// Make an LLM call through the user's selected provider, with timeouts, cancellation and retries.
+// Every answered request is added to the usage ledger.
+export const callOpenAI = async (
+  messages: OpenAIMessage[],
+  stream: boolean,
+  onStream: ((content: string) => void) | undefined,
+  options: CallOptions
+): Promise<string> => {
+  const providerSettings = options.providerSettings || getActiveProviderSettings();
+  const provider = getProvider(providerSettings.provider);
+  const apiKey = getApiKey(provider.id);
+  if (provider.requiresKey && !apiKey) {
+    throw new Error(`${provider.label} API key not found. Please configure your API key in Settings.`);
+  }
+  if (!isFreeProvider(provider.id)) {
+    await assertWithinBudget();
+  }
+
+  const timeoutMs = (providerSettings.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS) * 1000;
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  let hasStreamed = false;
+  let streamedContent = '';
+
+  // Providers that don't report usage are billed by local estimate
+  const record = (reply: string, usage: TokenUsage | undefined, startedAt: number) => recordUsage({
+    purpose: options.purpose,
+    provider: provider.id,
+    model: providerSettings.model,
+    promptTokens: usage?.promptTokens ?? estimateMessageTokens(messages),
+    completionTokens: usage?.completionTokens ?? estimateTokens(reply),
+    estimated: !usage,
+    latencyMs: Date.now() - startedAt,
+    threadId: options.threadId,
+    analysisRunId: options.analysisRunId
+  });
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw new LLMCancelledError();
+
+    const startedAt = Date.now();
+    let usage: TokenUsage | undefined;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    resetTimer();
+
+    try {
+      const reply = await provider.complete(
+        {
+          messages,
+          stream,
+          onStream: (content) => {
+            hasStreamed = true;
+            streamedContent = content;
+            resetTimer();
+            onStream?.(content);
+          },
+          onUsage: (reported) => {
+            usage = reported;
+          },
+          tools: provider.supportsTools ? options.tools : undefined,
+          onToolCall: options.onToolCall,
+          temperature: 0.7,
+          maxTokens: options.maxTokens ?? (stream ? 2000 : 4000),
+          responseFormat: options.responseFormat,
+          signal: controller.signal,
+        },
+        providerSettings,
+        apiKey
+      );
+      await record(reply, usage, startedAt);
+      return reply;
+    } catch (error) {
+      let failure: unknown = error;
+      if (options.signal?.aborted) {
+        failure = new LLMCancelledError();
+      } else if (timedOut) {
+        failure = new LLMTimeoutError(timeoutMs);
+      }
+
+      // Streamed tokens are billed even when the reply is cut short
+      if (hasStreamed) {
+        await record(streamedContent, usage, startedAt);
+      }
+
+      // A partially streamed reply can't be retried without duplicating output
+      if (!(failure instanceof LLMError) || !failure.retryable || hasStreamed || attempt >= maxRetries) {
+        throw failure;
+      }
+      await waitForRetry(getRetryDelayMs(failure, attempt), options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
     }
-  },
-  planADeepDive: {
-    impact: 'High demand role with excellent growth potential',
-    scope: 'End-to-end web application development',
-    futureDemand: 'Growing 22% through 2030',
-    marketOutlook: 'Excellent opportunities in tech hubs and remote',
-    geoNotes: 'Strong demand in SF, NYC, Austin, and remote positions',
-    competencies: {
-      core: ['React', 'Node.js', 'Database Design', 'API Development'],
-      supporting: ['DevOps', 'Testing', 'UI/UX Principles'],
-      certifications: ['AWS Developer', 'React Certification']
-    },
-    toolsStack: ['React', 'Node.js', 'PostgreSQL', 'Docker', 'AWS'],
-    portfolio: {
-      suggestedProjects: [
-        'E-commerce platform with payment integration',
-        'Social media dashboard with real-time updates',
-        'Task management app with team collaboration'
-      ]
-    },
-    timeline: {
-      month0_3: ['Master React fundamentals', 'Build first full-stack project', 'Learn database basics'],
-      month3_6: ['Advanced React patterns', 'API design', 'Deploy to cloud'],
-      month6_12: ['System design', 'Performance optimization', 'Team collaboration tools']
-    },
-    risks: ['Technology changes rapidly', 'High competition for entry-level roles']
-  },
-  summary: 'Full-stack development offers excellent career prospects with your background.',
-  roadmap: {
-    skillsToLearn: [
-      { name: 'React', level: 'Advanced' },
-      { name: 'Node.js', level: 'Intermediate' },
-      { name: 'PostgreSQL', level: 'Intermediate' }
-    ],
-    coursesAndResources: [
-      { name: 'React Complete Guide', provider: 'Udemy', type: 'Course', reason: 'Comprehensive React training' },
-      { name: 'Node.js Masterclass', provider: 'FreeCodeCamp', type: 'Free Course', reason: 'Backend development skills' }
-    ],
-    communitiesAndEvents: ['React Meetups', 'Developer Twitter', 'Stack Overflow'],
-    interviewPrepTopics: ['System Design', 'Data Structures', 'React Patterns'],
-    nextActions: ['Set up development environment', 'Start first project', 'Join developer community']
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,148 @@
+import { useAuthStore } from './stores';
+import { db, type StudentProfile, type ProfessionalProfile } from './db';
+
+// Versioned system prompts with {{variable}} placeholders, forkable per user
+
+export type PromptId = 'analysis-system' | 'chat-system';
+
+export interface PromptDefinition {
+  id: PromptId;
+  label: string;
+  description: string;
+  version: number;  // Bump whenever the built-in template changes
+  template: string;
+}
+
+// A user's edited copy of a built-in prompt
+export interface PromptOverride {
+  template: string;
+  basedOnVersion: number;  // Built-in version it was forked from
+  revision: number;        // Incremented on every save
+  updatedAt: Date;
+}
+
+export interface PromptVariables {
+  profileType: string;
+  locale: string;
+  timeline: string;
+}
+
+export const PROMPT_VARIABLES: Array<{ name: keyof PromptVariables; description: string }> = [
+  { name: 'profileType', description: 'student or professional' },
+  { name: 'locale', description: "The browser's language, e.g. en-US" },
+  { name: 'timeline', description: "The user's preferred timeline, e.g. 6 months" }
+];
+
+export const PROMPTS: Record<PromptId, PromptDefinition> = {
+  'analysis-system': {
+    id: 'analysis-system',
+    label: 'Career Analysis',
+    description: 'System prompt for every step of the career analysis',
+    version: 2,
+    template: `You are SkillLead.AI, a career guidance expert advising a {{profileType}}. Your role is to:
+
+1. Validate and clarify user-supplied profile data with targeted follow-up questions when needed; otherwise proceed.
+2. Identify the user's interests and constraints (time, budget, location, remote/on-site, visa, learning style).
+3. Analyze strengths, gaps, and context (student vs professional).
+4. Generate diverse opportunity sets, not biased to highest-paying only.
+5. Output three plans: Plan A (Primary), Plan B, Plan C; choose Plan A as best fit to constraints/interests.
+6. Deep dive on Plan A: impact, scope, future demand, market outlook, geo notes, competencies, certifications, tools, portfolio, risks/mitigations, milestone timeline (0–3, 3–6, 6–12 months).
+7. Provide a concise summary and an actionable roadmap with skills, courses/resources, and best places to learn tailored to the user.
+
+The user wants to see progress within {{timeline}}. Write text for locale {{locale}}, keeping JSON keys in English.
+
+Be clear, structured, and step-by-step. Ask follow-ups when uncertain. Return your response as a structured JSON object.`
+  },
+  'chat-system': {
+    id: 'chat-system',
+    label: 'Chat Assistant',
+    description: 'System prompt for follow-up conversations about the analysis',
+    version: 2,
+    template: `You are the SkillLead.AI assistant, talking with a {{profileType}}. Maintain context from this user's saved analysis.
+
+Key guidelines:
+- Clarify doubts, give concrete examples, and explain simply
+- Revise plans per user requests (timeline, budget, remote, region); their preferred timeline is {{timeline}}
+- Keep responses concise, structured, and practical
+- Ask precise follow-ups when uncertain
+- Never fabricate user data; only use the profile, saved analysis, and chat history
+- Focus on actionable advice and career guidance
+- Reply in the language of locale {{locale}} unless the user writes in another language`
+  }
+};
+
+const TIMELINE_LABELS: Record<string, string> = {
+  '3-months': '3 months',
+  '6-months': '6 months',
+  '12-months': '12 months'
+};
+
+export const buildPromptVariables = (
+  profile: StudentProfile | ProfessionalProfile | null | undefined,
+  profileType: 'student' | 'professional' | null | undefined
+): PromptVariables => ({
+  profileType: profileType || 'student',
+  locale: typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US',
+  timeline: TIMELINE_LABELS[profile?.preferences?.timeline || ''] || '12 months'
+});
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const renderPrompt = (template: string, variables: PromptVariables): string => {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    return name in variables ? variables[name as keyof PromptVariables] : placeholder;
+  });
+};
+
+// Placeholders that renderPrompt would leave as-is
+export const findUnknownVariables = (template: string): string[] => {
+  const known = PROMPT_VARIABLES.map(variable => variable.name as string);
+  const names = [...template.matchAll(PLACEHOLDER)].map(match => match[1]);
+  return [...new Set(names.filter(name => !known.includes(name)))];
+};
+
+export const getPromptOverride = (id: PromptId): PromptOverride | undefined => {
+  return useAuthStore.getState().currentUser?.promptOverrides?.[id];
+};
+
+// Identifies exactly which prompt text produced a result, e.g. "analysis-system@2" or "analysis-system@2+custom.3"
+export const getPromptVersion = (id: PromptId): string => {
+  const override = getPromptOverride(id);
+  return override
+    ? `${id}@${override.basedOnVersion}+custom.${override.revision}`
+    : `${id}@${PROMPTS[id].version}`;
+};
+
+// The signed-in user's version of a prompt, rendered with the given variables
+export const resolvePrompt = (id: PromptId, variables: PromptVariables): { content: string; version: string } => {
+  const template = getPromptOverride(id)?.template ?? PROMPTS[id].template;
+  return { content: renderPrompt(template, variables), version: getPromptVersion(id) };
+};
+
+const updatePromptOverrides = async (update: (overrides: Partial<Record<PromptId, PromptOverride>>) => void) => {
+  const { currentUser, setCurrentUser } = useAuthStore.getState();
+  if (!currentUser?.id) return;
+
+  const promptOverrides = { ...currentUser.promptOverrides };
+  update(promptOverrides);
+  await db.users.update(currentUser.id, { promptOverrides, updatedAt: new Date() });
+  setCurrentUser({ ...currentUser, promptOverrides });
+};
+
+export const savePromptOverride = async (id: PromptId, template: string) => {
+  await updatePromptOverrides(overrides => {
+    overrides[id] = {
+      template,
+      basedOnVersion: overrides[id]?.basedOnVersion ?? PROMPTS[id].version,
+      revision: (overrides[id]?.revision ?? 0) + 1,
+      updatedAt: new Date()
+    };
+  });
+};
+
+// Drop the user's copy and go back to the built-in prompt
+export const revertPrompt = async (id: PromptId) => {
+  await updatePromptOverrides(overrides => {
+    delete overrides[id];
+  });
+};
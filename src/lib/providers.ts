@@ -0,0 +1,502 @@
+import type { OpenAIMessage } from './openai';
+import {
+  LLMError,
+  LLMContentFilterError,
+  LLMNetworkError,
+  LLMRateLimitError,
+  LLMServerError,
+  toLLMError
+} from './llmErrors';
+import { readServerSentEvents, type ServerSentEvent } from './sse';
+import { mockProvider } from './mockProvider';
+
+// LLM provider implementations behind callOpenAI
+
+export type ProviderId = 'openai' | 'openai-compatible' | 'azure' | 'anthropic' | 'mock';
+
+// Failures the offline mock provider can inject
+export type MockFailure = 'rate-limit' | 'server' | 'network' | 'timeout' | 'content-filter';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string;
+  baseUrl?: string;     // OpenAI-compatible base URL or Azure resource endpoint
+  deployment?: string;  // Azure deployment name
+  apiVersion?: string;  // Azure API version
+  timeoutSeconds?: number;  // Per-attempt limit; for streams, the longest gap between chunks
+  mockLatencyMs?: number;   // Mock provider: delay before the first token
+  mockFailEvery?: number;   // Mock provider: fail every Nth request
+  mockFailure?: MockFailure;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// A function the model may call alongside, or instead of, its text reply
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;  // JSON Schema for the arguments
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: unknown;  // Parsed from JSON, not yet validated
+}
+
+export interface CompletionRequest {
+  messages: OpenAIMessage[];
+  stream: boolean;
+  onStream?: (content: string) => void;
+  onUsage?: (usage: TokenUsage) => void;  // Token counts reported by the provider
+  tools?: ToolDefinition[];
+  onToolCall?: (call: ToolCall) => void;  // Called once per complete tool call
+  temperature: number;
+  maxTokens: number;
+  responseFormat?: 'text' | 'json';
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  requiresKey: boolean;
+  supportsJsonMode: boolean;  // Accepts response_format: json_object
+  supportsStreamUsage?: boolean;  // Reports token usage at the end of a stream when asked
+  supportsTools: boolean;  // Accepts tool definitions and returns tool calls
+  defaultModel: string;
+  keyPlaceholder: string;
+  keyHelpUrl?: string;
+  complete: (request: CompletionRequest, settings: ProviderSettings, apiKey: string | null) => Promise<string>;
+  testConnection: (settings: ProviderSettings, apiKey: string | null) => Promise<boolean>;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'openai',
+  model: 'gpt-4-turbo-preview'
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, '');
+
+// Fields read from streamed chunks across the supported wire formats
+interface UsagePayload {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface StreamPayload {
+  type?: string;
+  index?: number;
+  choices?: Array<{ delta?: { content?: string; tool_calls?: ToolCallDelta[] }; finish_reason?: string | null }>;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  content_block?: { type?: string; id?: string; name?: string };
+  message?: { usage?: UsagePayload };
+  usage?: UsagePayload | null;
+  error?: { message?: string; type?: string; code?: string };
+}
+
+interface StreamStep {
+  delta?: string;
+  done?: boolean;
+}
+
+// Errors reported inside an otherwise successful stream
+const toStreamError = (label: string, error: NonNullable<StreamPayload['error']>): LLMError => {
+  const message = `${label} API error: ${error.message || 'Stream failed'}`;
+  const code = `${error.type || ''} ${error.code || ''}`;
+  if (/rate_limit/i.test(code)) return new LLMRateLimitError(message);
+  if (/overloaded|server_error|api_error/i.test(code)) return new LLMServerError(message);
+  if (/content_filter/i.test(code)) return new LLMContentFilterError(message);
+  return new LLMError(message, 'request');
+};
+
+const parseToolArguments = (name: string, json: string): unknown => {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch (error) {
+    console.warn(`Ignoring ${name} tool call with malformed arguments`);
+    return undefined;
+  }
+};
+
+// Streamed tool calls arrive in fragments, with the arguments JSON split across chunks
+const createToolCallCollector = (onToolCall?: (call: ToolCall) => void) => {
+  const pending = new Map<number, { id: string; name: string; json: string }>();
+
+  return {
+    add: (index: number, fragment: { id?: string; name?: string; json?: string }) => {
+      const call = pending.get(index) || { id: '', name: '', json: '' };
+      pending.set(index, {
+        id: fragment.id || call.id,
+        name: fragment.name || call.name,
+        json: call.json + (fragment.json || '')
+      });
+    },
+    // Emit the completed calls once the stream has finished
+    flush: () => {
+      for (const [index, call] of pending) {
+        const args = parseToolArguments(call.name, call.json);
+        if (call.name && args !== undefined) {
+          onToolCall?.({ id: call.id || `call_${index}`, name: call.name, arguments: args });
+        }
+      }
+      pending.clear();
+    }
+  };
+};
+
+type ToolCallCollector = ReturnType<typeof createToolCallCollector>;
+
+// Consume a server-sent event stream, accumulating the text deltas picked out by readEvent
+const readEventStream = async (
+  body: ReadableStream<Uint8Array>,
+  readEvent: (event: ServerSentEvent, payload: StreamPayload) => StreamStep,
+  onStream?: (content: string) => void
+): Promise<string> => {
+  let fullContent = '';
+
+  for await (const event of readServerSentEvents(body)) {
+    if (event.data === '[DONE]') break;
+
+    let payload: StreamPayload;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (e) {
+      // Skip events that aren't JSON
+      continue;
+    }
+
+    const step = readEvent(event, payload);
+    if (step.delta) {
+      fullContent += step.delta;
+      onStream?.(fullContent);
+    }
+    if (step.done) break;
+  }
+
+  return fullContent;
+};
+
+// fetch rejects with a TypeError when the request itself can't be sent. Only that is a network
+// failure; a TypeError while reading the reply is a bug and must not be retried as one.
+const sendRequest = async (url: string, init: RequestInit) => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (!(error instanceof TypeError)) throw error;
+    throw new LLMNetworkError();
+  }
+};
+
+// Shared implementation for the OpenAI chat completions wire format
+const createChatCompletionsProvider = (
+  base: Omit<LLMProvider, 'complete' | 'testConnection'>,
+  getEndpoint: (settings: ProviderSettings) => string,
+  getHeaders: (apiKey: string | null) => Record<string, string>
+): LLMProvider => {
+  const post = (settings: ProviderSettings, apiKey: string | null, body: Record<string, unknown>, signal?: AbortSignal) => {
+    return sendRequest(getEndpoint(settings), {
+      method: 'POST',
+      headers: {
+        ...getHeaders(apiKey),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: settings.model, ...body }),
+      signal,
+    });
+  };
+
+  const reportUsage = (request: CompletionRequest, usage?: UsagePayload | null) => {
+    if (usage?.prompt_tokens === undefined) return;
+    request.onUsage?.({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 });
+  };
+
+  const readEvent = (request: CompletionRequest, toolCalls: ToolCallCollector) => (event: ServerSentEvent, payload: StreamPayload): StreamStep => {
+    if (payload.error) {
+      throw toStreamError(base.label, payload.error);
+    }
+    // The usage chunk arrives last, with no choices
+    reportUsage(request, payload.usage);
+    const choice = payload.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new LLMContentFilterError();
+    }
+    for (const call of choice?.delta?.tool_calls || []) {
+      toolCalls.add(call.index, { id: call.id, name: call.function?.name, json: call.function?.arguments });
+    }
+    return { delta: choice?.delta?.content || '' };
+  };
+
+  return {
+    ...base,
+    complete: async (request, settings, apiKey) => {
+      const response = await post(settings, apiKey, {
+        messages: request.messages,
+        stream: request.stream,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.responseFormat === 'json' && base.supportsJsonMode
+          ? { response_format: { type: 'json_object' } }
+          : {}),
+        ...(request.stream && base.supportsStreamUsage
+          ? { stream_options: { include_usage: true } }
+          : {}),
+        ...(request.tools?.length
+          ? { tools: request.tools.map(tool => ({ type: 'function', function: tool })) }
+          : {}),
+      }, request.signal);
+
+      if (!response.ok) {
+        throw await toLLMError(response, base.label);
+      }
+
+      if (request.stream && response.body) {
+        const toolCalls = createToolCallCollector(request.onToolCall);
+        const content = await readEventStream(response.body, readEvent(request, toolCalls), request.onStream);
+        toolCalls.flush();
+        return content;
+      } else {
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        if (data.choices?.[0]?.finish_reason === 'content_filter') {
+          throw new LLMContentFilterError();
+        }
+        reportUsage(request, data.usage);
+        const toolCalls = createToolCallCollector(request.onToolCall);
+        (message?.tool_calls || []).forEach((call: ToolCallDelta, index: number) => {
+          toolCalls.add(index, { id: call.id, name: call.function?.name, json: call.function?.arguments });
+        });
+        toolCalls.flush();
+        return message?.content || '';
+      }
+    },
+    testConnection: async (settings, apiKey) => {
+      try {
+        const response = await post(settings, apiKey, {
+          messages: [{ role: 'user', content: 'Test' }],
+          max_tokens: 5,
+        });
+        return response.ok;
+      } catch (error) {
+        console.error(`${base.label} connection test failed:`, error);
+        return false;
+      }
+    }
+  };
+};
+
+const openaiProvider = createChatCompletionsProvider(
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    requiresKey: true,
+    supportsJsonMode: true,
+    supportsStreamUsage: true,
+    supportsTools: true,
+    defaultModel: 'gpt-4-turbo-preview',
+    keyPlaceholder: 'sk-...',
+    keyHelpUrl: 'https://platform.openai.com/api-keys'
+  },
+  () => 'https://api.openai.com/v1/chat/completions',
+  (apiKey) => ({ 'Authorization': `Bearer ${apiKey}` })
+);
+
+const openaiCompatibleProvider = createChatCompletionsProvider(
+  {
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    requiresKey: false,
+    supportsJsonMode: false,
+    supportsTools: false,  // Not every local server implements tool calling
+    defaultModel: 'llama3.1',
+    keyPlaceholder: 'Optional for local servers'
+  },
+  (settings) => `${trimSlash(settings.baseUrl || 'http://localhost:11434/v1')}/chat/completions`,
+  (apiKey): Record<string, string> => (apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+);
+
+const azureProvider = createChatCompletionsProvider(
+  {
+    id: 'azure',
+    label: 'Azure OpenAI',
+    requiresKey: true,
+    supportsJsonMode: true,
+    supportsTools: true,
+    defaultModel: 'gpt-4',
+    keyPlaceholder: 'Azure resource key'
+  },
+  (settings) => {
+    const deployment = encodeURIComponent(settings.deployment || settings.model);
+    const apiVersion = settings.apiVersion || '2024-06-01';
+    return `${trimSlash(settings.baseUrl || '')}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`;
+  },
+  (apiKey) => ({ 'api-key': apiKey || '' })
+);
+
+// Anthropic Messages API
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const anthropicHeaders = (apiKey: string | null) => ({
+  'x-api-key': apiKey || '',
+  'anthropic-version': ANTHROPIC_VERSION,
+  'anthropic-dangerous-direct-browser-access': 'true',
+  'Content-Type': 'application/json',
+});
+
+// Anthropic takes system prompts separately and requires alternating user/assistant turns
+const toAnthropicMessages = (messages: OpenAIMessage[]) => {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const turns: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') continue;
+    // The conversation must open with a user turn, so leading greetings are dropped
+    if (turns.length === 0 && message.role === 'assistant') continue;
+    const previous = turns[turns.length - 1];
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else {
+      turns.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system, messages: turns };
+};
+
+// Anthropic names each event; the payload type mirrors the event name.
+// Input tokens arrive with message_start and the output count with message_delta.
+const readAnthropicEvent = (request: CompletionRequest, toolCalls: ToolCallCollector) => {
+  let promptTokens = 0;
+
+  return (event: ServerSentEvent, payload: StreamPayload): StreamStep => {
+    const type = event.event !== 'message' ? event.event : payload.type;
+    switch (type) {
+      case 'message_start':
+        promptTokens = payload.message?.usage?.input_tokens || 0;
+        return {};
+      case 'content_block_start':
+        if (payload.content_block?.type === 'tool_use') {
+          toolCalls.add(payload.index ?? 0, { id: payload.content_block.id, name: payload.content_block.name });
+        }
+        return {};
+      case 'content_block_delta':
+        if (payload.delta?.type === 'input_json_delta') {
+          toolCalls.add(payload.index ?? 0, { json: payload.delta.partial_json });
+          return {};
+        }
+        return { delta: payload.delta?.text || '' };
+      case 'message_delta':
+        if (payload.delta?.stop_reason === 'refusal') {
+          throw new LLMContentFilterError();
+        }
+        if (payload.usage?.output_tokens !== undefined) {
+          request.onUsage?.({ promptTokens, completionTokens: payload.usage.output_tokens });
+        }
+        return {};
+      case 'message_stop':
+        return { done: true };
+      case 'error':
+        throw toStreamError('Anthropic', payload.error || {});
+      default:
+        return {};
+    }
+  };
+};
+
+const anthropicProvider: LLMProvider = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  requiresKey: true,
+  supportsJsonMode: false,
+  supportsTools: true,
+  defaultModel: 'claude-3-5-sonnet-latest',
+  keyPlaceholder: 'sk-ant-...',
+  keyHelpUrl: 'https://console.anthropic.com/settings/keys',
+  complete: async (request, settings, apiKey) => {
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const response = await sendRequest(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: anthropicHeaders(apiKey),
+      body: JSON.stringify({
+        model: settings.model,
+        system: system || undefined,
+        messages,
+        stream: request.stream,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        tools: request.tools?.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.parameters
+        })),
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await toLLMError(response, 'Anthropic');
+    }
+
+    if (request.stream && response.body) {
+      const toolCalls = createToolCallCollector(request.onToolCall);
+      const content = await readEventStream(response.body, readAnthropicEvent(request, toolCalls), request.onStream);
+      toolCalls.flush();
+      return content;
+    } else {
+      const data = await response.json();
+      if (data.usage) {
+        request.onUsage?.({ promptTokens: data.usage.input_tokens || 0, completionTokens: data.usage.output_tokens || 0 });
+      }
+      for (const block of data.content || []) {
+        if (block.type === 'tool_use') {
+          request.onToolCall?.({ id: block.id, name: block.name, arguments: block.input ?? {} });
+        }
+      }
+      return (data.content || [])
+        .filter((block: { type: string }) => block.type === 'text')
+        .map((block: { text: string }) => block.text)
+        .join('');
+    }
+  },
+  testConnection: async (settings, apiKey) => {
+    try {
+      const response = await fetch(ANTHROPIC_API_URL, {
+        method: 'POST',
+        headers: anthropicHeaders(apiKey),
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [{ role: 'user', content: 'Test' }],
+          max_tokens: 5,
+        }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Anthropic connection test failed:', error);
+      return false;
+    }
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  'openai': openaiProvider,
+  'openai-compatible': openaiCompatibleProvider,
+  'azure': azureProvider,
+  'anthropic': anthropicProvider,
+  'mock': mockProvider
+};
+
+export const getProvider = (id: ProviderId): LLMProvider => {
+  return PROVIDERS[id] || openaiProvider;
+};
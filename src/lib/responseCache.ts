@@ -0,0 +1,46 @@
+import { sha256Hex } from './crypto';
+import type { ProviderSettings } from './providers';
+import type { StudentProfile, ProfessionalProfile } from './db';
+
+// Content-addressed cache keys for completed analyses
+
+// How long a cached analysis is reused before it is regenerated
+export const ANALYSIS_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Record bookkeeping that doesn't change what the model sees as meaningful input
+const IGNORED_FIELDS = ['id', 'userId', 'status', 'updatedAt', 'encrypted'];
+
+// JSON with sorted keys, so equal profiles always serialize identically
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const entries = Object.entries(value)
+      .filter(([key, field]) => !IGNORED_FIELDS.includes(key) && field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Scoped to the user, since the key is unique across everyone's entries on this device
+export const getAnalysisCacheKey = async (
+  userId: number,
+  providerSettings: ProviderSettings,
+  promptVersion: string,
+  profile: StudentProfile | ProfessionalProfile,
+  profileType: 'student' | 'professional'
+): Promise<string> => {
+  const profileHash = await sha256Hex(canonicalJson(profile));
+  return await sha256Hex(canonicalJson({
+    user: userId,  // Not `userId`, which canonicalJson drops as bookkeeping
+    provider: providerSettings.provider,
+    model: providerSettings.model,
+    baseUrl: providerSettings.baseUrl,
+    deployment: providerSettings.deployment,
+    promptVersion,
+    profileType,
+    profileHash
+  }));
+};
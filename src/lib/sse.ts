@@ -0,0 +1,129 @@
+// Incremental parser for the text/event-stream format used by streaming LLM APIs
+// https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+
+export interface ServerSentEvent {
+  event: string;  // "message" unless the stream names the event type
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export class EventStreamParser {
+  private buffer = '';
+  private data: string[] = [];
+  private eventType = '';
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+  private skipLeadingLineFeed = false;
+
+  // Feed decoded text; returns the events completed by this chunk
+  feed(chunk: string): ServerSentEvent[] {
+    let text = chunk;
+    // A CRLF pair may be split across chunks
+    if (this.skipLeadingLineFeed && text.startsWith('\n')) {
+      text = text.slice(1);
+    }
+    this.skipLeadingLineFeed = false;
+    this.buffer += text;
+
+    const events: ServerSentEvent[] = [];
+    let lineStart = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      const event = this.processLine(this.buffer.slice(lineStart, i));
+      if (event) events.push(event);
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.skipLeadingLineFeed = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      lineStart = i + 1;
+    }
+
+    // Keep the incomplete trailing line for the next chunk
+    this.buffer = this.buffer.slice(lineStart);
+    return events;
+  }
+
+  // Flush at end of stream; servers sometimes omit the final blank line
+  end(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const event = this.dispatch();
+    if (event) events.push(event);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null;  // Comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const hasData = this.data.length > 0;
+    const event: ServerSentEvent = {
+      event: this.eventType || 'message',
+      data: this.data.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry
+    };
+    this.data = [];
+    this.eventType = '';
+    return hasData ? event : null;
+  }
+}
+
+// Read a response body as a sequence of server-sent events
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new EventStreamParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters split across reads intact
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+    yield* parser.end();
+  } finally {
+    // Stop the underlying request if the consumer finished early
+    reader.cancel().catch(() => undefined);
+    reader.releaseLock();
+  }
+}
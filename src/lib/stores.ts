@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { LocalUser, StudentProfile, ProfessionalProfile, CareerAnalysis, AppSettings } from './db';
+import type { AnalysisProposal } from './analysisTools';
 
 // Auth Store
 interface AuthState {
@@ -40,13 +41,18 @@ export const useAuthStore = create<AuthState>()(
 );
 
 // Profile Store
+export type ProfileField = keyof (StudentProfile & ProfessionalProfile);
+
 interface ProfileState {
   profile: StudentProfile | ProfessionalProfile | null;
   profileType: 'student' | 'professional' | null;
   isLoading: boolean;
   hasUnsavedChanges: boolean;
+  editedFields: ProfileField[];  // Changed here since the last save or load
+  remoteRevision: number;  // Bumped whenever another tab's save is merged in, so open editors can refresh
   setProfile: (profile: StudentProfile | ProfessionalProfile, type: 'student' | 'professional') => void;
   updateProfile: (updates: Partial<StudentProfile & ProfessionalProfile>) => void;
+  mergeRemoteProfile: (profile: StudentProfile | ProfessionalProfile, type: 'student' | 'professional') => ProfileField[];
   setLoading: (loading: boolean) => void;
   setUnsavedChanges: (hasChanges: boolean) => void;
   clearProfile: () => void;
@@ -57,26 +63,51 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
   profileType: null,
   isLoading: false,
   hasUnsavedChanges: false,
+  editedFields: [],
+  remoteRevision: 0,
   setProfile: (profile, type) => set({ 
     profile, 
     profileType: type,
-    hasUnsavedChanges: false 
+    hasUnsavedChanges: false,
+    editedFields: []
   }),
   updateProfile: (updates) => {
     const currentProfile = get().profile;
     if (currentProfile) {
+      const edited = new Set([...get().editedFields, ...(Object.keys(updates) as ProfileField[])]);
       set({ 
         profile: { ...currentProfile, ...updates } as StudentProfile | ProfessionalProfile,
-        hasUnsavedChanges: true 
+        hasUnsavedChanges: true,
+        editedFields: [...edited]
       });
     }
   },
+  // Conflict rule for a profile saved in another tab: take its fields, except the ones edited here
+  // and not saved yet. Those win when this tab saves, as the later write. Returns the fields kept.
+  mergeRemoteProfile: (profile, type) => {
+    const { profile: currentProfile, hasUnsavedChanges, editedFields, remoteRevision } = get();
+    if (!currentProfile || !hasUnsavedChanges || get().profileType !== type) {
+      get().setProfile(profile, type);
+      set({ remoteRevision: remoteRevision + 1 });
+      return [];
+    }
+
+    const localEdits = Object.fromEntries(
+      editedFields.map(field => [field, (currentProfile as Partial<StudentProfile & ProfessionalProfile>)[field]])
+    );
+    set({
+      profile: { ...profile, ...localEdits } as StudentProfile | ProfessionalProfile,
+      remoteRevision: remoteRevision + 1
+    });
+    return editedFields;
+  },
   setLoading: (loading) => set({ isLoading: loading }),
-  setUnsavedChanges: (hasChanges) => set({ hasUnsavedChanges: hasChanges }),
+  setUnsavedChanges: (hasChanges) => set(hasChanges ? { hasUnsavedChanges: true } : { hasUnsavedChanges: false, editedFields: [] }),
   clearProfile: () => set({ 
     profile: null, 
     profileType: null, 
-    hasUnsavedChanges: false 
+    hasUnsavedChanges: false,
+    editedFields: []
   }),
 }));
 
@@ -84,7 +115,7 @@ export const useProfileStore = create<ProfileState>((set, get) => ({
 interface AnalysisState {
   analysis: CareerAnalysis | null;
   isAnalyzing: boolean;
-  analysisStep: 'idle' | 'understanding' | 'clarifying' | 'exploring' | 'planning' | 'deep-dive' | 'complete';
+  analysisStep: 'idle' | 'understanding' | 'clarifying' | 'exploring' | 'planning' | 'deep-dive' | 'roadmap' | 'complete';
   progress: number;
   setAnalysis: (analysis: CareerAnalysis | null) => void;
   setAnalyzing: (analyzing: boolean) => void;
@@ -162,11 +193,14 @@ interface ChatState {
     content: string;
     timestamp: Date;
     isStreaming?: boolean;
+    dbId?: number;
+    proposal?: AnalysisProposal;
   }>;
   isStreaming: boolean;
   setCurrentThread: (threadId: number | null) => void;
+  setMessages: (messages: ChatState['messages']) => void;
   addMessage: (message: Omit<ChatState['messages'][0], 'id' | 'timestamp'>) => void;
-  updateLastMessage: (content: string) => void;
+  updateLastMessage: (content: string, updates?: Partial<Omit<ChatState['messages'][0], 'id' | 'content'>>) => void;
   setStreaming: (streaming: boolean) => void;
   clearMessages: () => void;
 }
@@ -176,6 +210,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   isStreaming: false,
   setCurrentThread: (threadId) => set({ currentThreadId: threadId }),
+  setMessages: (messages) => set({ messages }),
   addMessage: (message) => {
     const id = `msg-${Date.now()}-${Math.random()}`;
     const timestamp = new Date();
@@ -183,10 +218,10 @@ export const useChatStore = create<ChatState>((set, get) => ({
       messages: [...get().messages, { ...message, id, timestamp }]
     });
   },
-  updateLastMessage: (content) => {
+  updateLastMessage: (content, updates) => {
     const messages = get().messages;
     if (messages.length > 0) {
-      const lastMessage = { ...messages[messages.length - 1] };
+      const lastMessage = { ...messages[messages.length - 1], ...updates };
       lastMessage.content = content;
       set({ 
         messages: [...messages.slice(0, -1), lastMessage]
@@ -0,0 +1,36 @@
+// Changes written to IndexedDB, announced to the app's other open tabs so their stores can catch up.
+// A BroadcastChannel never delivers a message back to the channel that sent it.
+
+export type SyncEvent =
+  | { type: 'profile'; userId: number; profileType: 'student' | 'professional' }
+  | { type: 'analysis'; userId: number; analysisId: number }
+  | { type: 'chat'; threadId: number }
+  | { type: 'data-replaced' };  // Import or undo; too broad to patch into the stores
+
+const CHANNEL_NAME = 'skilllead-sync';
+
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  }
+  return channel;
+};
+
+export const broadcastChange = (event: SyncEvent) => {
+  try {
+    getChannel()?.postMessage(event);
+  } catch (error) {
+    console.warn('Failed to notify other tabs:', error);
+  }
+};
+
+export const subscribeToChanges = (listener: (event: SyncEvent) => void): (() => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+
+  const handleMessage = (message: MessageEvent<SyncEvent>) => listener(message.data);
+  current.addEventListener('message', handleMessage);
+  return () => current.removeEventListener('message', handleMessage);
+};
@@ -0,0 +1,83 @@
+import type { OpenAIMessage } from './openai';
+
+// Local token estimates and per-model context budgets
+
+// Approximates BPE tokenizers: common words are ~1 token per 4 letters, punctuation and
+// symbols are usually their own token, and CJK characters are roughly one token each
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+
+  let tokens = 0;
+  const pieces = text.match(/[A-Za-z]+|\d+|[぀-ヿ㐀-鿿가-힯]|[^\sA-Za-z\d]/g) || [];
+  for (const piece of pieces) {
+    if (/^[A-Za-z]+$/.test(piece)) {
+      tokens += Math.max(1, Math.ceil(piece.length / 4));
+    } else if (/^\d+$/.test(piece)) {
+      tokens += Math.ceil(piece.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+};
+
+// Chat formats add a few tokens of framing per message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const estimateMessageTokens = (messages: OpenAIMessage[]): number => {
+  return messages.reduce((total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+};
+
+// Context window sizes by model name prefix (longest prefix wins)
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['gpt-4o', 128000],
+  ['gpt-4.1', 1000000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4-1106', 128000],
+  ['gpt-4-0125', 128000],
+  ['gpt-4-32k', 32768],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 128000],
+  ['o3', 200000],
+  ['claude', 200000],
+  ['llama3', 8192],
+  ['llama3.1', 128000],
+  ['llama3.2', 128000],
+  ['mistral', 32768],
+  ['qwen', 32768]
+];
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+export const getContextWindow = (model: string): number => {
+  const name = model.toLowerCase();
+  const match = CONTEXT_WINDOWS
+    .filter(([prefix]) => name.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+};
+
+// Prompt tokens available once the reply and a margin for estimate error are set aside.
+// Very large windows are capped to keep requests fast and inexpensive.
+const MAX_PROMPT_BUDGET = 32000;
+const SAFETY_MARGIN = 0.1;
+
+export const getPromptBudget = (model: string, maxOutputTokens: number): number => {
+  const available = getContextWindow(model) - maxOutputTokens;
+  return Math.min(MAX_PROMPT_BUDGET, Math.floor(available * (1 - SAFETY_MARGIN)));
+};
+
+// Cut text to roughly the given number of tokens
+export const truncateToTokens = (text: string, maxTokens: number): string => {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+  return `${text.slice(0, low)}… (truncated)`;
+};
@@ -0,0 +1,171 @@
+import { useAuthStore } from './stores';
+import { addUsageRecord, getUsageRecords, db, type UsageRecord } from './db';
+import { LLMBudgetExceededError } from './llmErrors';
+import type { ProviderId } from './providers';
+
+// Usage and cost ledger for LLM requests
+
+export type UsagePurpose = UsageRecord['purpose'];
+
+// USD per million tokens by model name prefix (longest prefix wins)
+const MODEL_PRICES: Array<[prefix: string, input: number, output: number]> = [
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4.1-nano', 0.1, 0.4],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-4.1', 2, 8],
+  ['gpt-4-turbo', 10, 30],
+  ['gpt-4-1106', 10, 30],
+  ['gpt-4-0125', 10, 30],
+  ['gpt-4-32k', 60, 120],
+  ['gpt-4', 30, 60],
+  ['gpt-3.5-turbo', 0.5, 1.5],
+  ['o1-mini', 1.1, 4.4],
+  ['o1', 15, 60],
+  ['o3-mini', 1.1, 4.4],
+  ['o3', 2, 8],
+  ['claude-3-haiku', 0.25, 1.25],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-5-sonnet', 3, 15],
+  ['claude-3-7-sonnet', 3, 15],
+  ['claude-sonnet-4', 3, 15],
+  ['claude-3-opus', 15, 75],
+  ['claude-opus-4', 15, 75]
+];
+
+const findPrice = (model: string) => {
+  const name = model.toLowerCase();
+  return MODEL_PRICES
+    .filter(([prefix]) => name.startsWith(prefix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+};
+
+// Self-hosted OpenAI-compatible servers and the offline mock cost nothing
+export const isFreeProvider = (provider: ProviderId) => provider === 'openai-compatible' || provider === 'mock';
+
+// Whether a price is known; unknown models are recorded at no cost
+export const isPricedModel = (provider: ProviderId, model: string): boolean => {
+  return !isFreeProvider(provider) && !!findPrice(model);
+};
+
+export const calculateCost = (
+  provider: ProviderId,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number => {
+  if (isFreeProvider(provider)) return 0;
+  const price = findPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price[1] + completionTokens * price[2]) / 1_000_000;
+};
+
+// Add a request to the signed-in user's ledger
+export const recordUsage = async (entry: Omit<UsageRecord, 'id' | 'userId' | 'costUsd' | 'createdAt'>) => {
+  const userId = useAuthStore.getState().currentUser?.id;
+  if (!userId) return;
+
+  try {
+    await addUsageRecord({
+      ...entry,
+      userId,
+      costUsd: calculateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens),
+      createdAt: new Date()
+    });
+  } catch (error) {
+    // Bookkeeping must never fail the request itself
+    console.error('Failed to record usage:', error);
+  }
+};
+
+export const startOfMonth = (date = new Date()) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+export const getMonthlySpend = async (userId: number): Promise<number> => {
+  const records = await getUsageRecords(userId, startOfMonth());
+  return records.reduce((total, record) => total + record.costUsd, 0);
+};
+
+// Refuse new requests once this month's spend has reached the user's cap
+export const assertWithinBudget = async () => {
+  const user = useAuthStore.getState().currentUser;
+  if (!user?.id || !user.monthlyBudgetUsd) return;
+
+  const spent = await getMonthlySpend(user.id);
+  if (spent >= user.monthlyBudgetUsd) {
+    throw new LLMBudgetExceededError(spent, user.monthlyBudgetUsd);
+  }
+};
+
+// Set or clear (undefined) the signed-in user's monthly cap
+export const saveMonthlyBudget = async (monthlyBudgetUsd?: number) => {
+  const { currentUser, setCurrentUser } = useAuthStore.getState();
+  if (!currentUser?.id) return;
+
+  await db.users.update(currentUser.id, { monthlyBudgetUsd, updatedAt: new Date() });
+  setCurrentUser({ ...currentUser, monthlyBudgetUsd });
+};
+
+export interface UsageTotal {
+  key: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  estimated: boolean;  // Some token counts were estimated locally
+  firstUsedAt?: Date;
+}
+
+export interface UsageSummary {
+  total: UsageTotal;
+  byDay: UsageTotal[];
+  byAnalysis: UsageTotal[];
+  byThread: UsageTotal[];
+}
+
+const emptyTotal = (key: string): UsageTotal => ({
+  key,
+  requests: 0,
+  promptTokens: 0,
+  completionTokens: 0,
+  costUsd: 0,
+  estimated: false
+});
+
+const addToTotal = (total: UsageTotal, record: UsageRecord) => {
+  total.requests++;
+  total.promptTokens += record.promptTokens;
+  total.completionTokens += record.completionTokens;
+  total.costUsd += record.costUsd;
+  total.estimated = total.estimated || record.estimated;
+  if (!total.firstUsedAt || record.createdAt < total.firstUsedAt) total.firstUsedAt = record.createdAt;
+};
+
+const groupBy = (records: UsageRecord[], getKey: (record: UsageRecord) => string | undefined): UsageTotal[] => {
+  const groups = new Map<string, UsageTotal>();
+  for (const record of records) {
+    const key = getKey(record);
+    if (key === undefined) continue;
+    if (!groups.has(key)) groups.set(key, emptyTotal(key));
+    addToTotal(groups.get(key)!, record);
+  }
+  return [...groups.values()];
+};
+
+const dayKey = (date: Date) => {
+  const day = new Date(date);
+  return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+};
+
+// Totals per local calendar day (newest first), per analysis run and per chat thread (costliest first)
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const total = emptyTotal('total');
+  records.forEach(record => addToTotal(total, record));
+  const byCost = (a: UsageTotal, b: UsageTotal) => b.costUsd - a.costUsd;
+
+  return {
+    total,
+    byDay: groupBy(records, record => dayKey(record.createdAt)).sort((a, b) => b.key.localeCompare(a.key)),
+    byAnalysis: groupBy(records, record => record.analysisRunId?.toString()).sort(byCost),
+    byThread: groupBy(records, record => record.threadId?.toString()).sort(byCost)
+  };
+};
@@ -0,0 +1,121 @@
+import {
+  deriveKey,
+  encryptWithKey,
+  decryptWithKey,
+  fromBase64,
+  toBase64,
+  randomBytes,
+  isEncryptedPayload,
+  PBKDF2_ITERATIONS,
+  type EncryptedPayload
+} from './crypto';
+
+// In-memory encryption keys for passphrase-protected users. Keys are never persisted,
+// so records stay sealed at rest until the user signs in again.
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('This profile is locked. Sign in with your passphrase to access its data.');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export interface VaultKey {
+  key: CryptoKey;
+  salt: Uint8Array;
+}
+
+const vaultKeys = new Map<number, VaultKey>();
+
+export const createVaultSalt = (): string => {
+  return toBase64(randomBytes(16));
+};
+
+export const unlockVault = async (userId: number, passphrase: string, salt: string) => {
+  const saltBytes = fromBase64(salt);
+  const key = await deriveKey(passphrase, saltBytes);
+  vaultKeys.set(userId, { key, salt: saltBytes });
+};
+
+export const lockVault = (userId?: number) => {
+  if (userId === undefined) {
+    vaultKeys.clear();
+  } else {
+    vaultKeys.delete(userId);
+  }
+};
+
+export const isVaultUnlocked = (userId: number): boolean => {
+  return vaultKeys.has(userId);
+};
+
+export const getVaultKey = (userId: number): VaultKey | undefined => {
+  return vaultKeys.get(userId);
+};
+
+// Fields left in plaintext so Dexie indexes keep working
+export const PLAINTEXT_FIELDS = {
+  studentProfiles: ['id', 'userId', 'status', 'updatedAt'],
+  professionalProfiles: ['id', 'userId', 'status', 'updatedAt'],
+  analyses: ['id', 'userId', 'status', 'latest', 'createdAt', 'updatedAt', 'version'],
+  analysisRuns: ['id', 'userId', 'status', 'profileType', 'profileUpdatedAt', 'createdAt', 'updatedAt'],
+  chatThreads: ['id', 'userId', 'createdAt', 'updatedAt', 'archived', 'contextRefs'],
+  chatMessages: ['id', 'threadId', 'role', 'createdAt'],
+  responseCache: [
+    'id', 'key', 'userId', 'provider', 'model', 'promptVersion', 'profileType', 'analysisId', 'createdAt', 'expiresAt'
+  ]
+} as const;
+
+export type SealedTable = keyof typeof PLAINTEXT_FIELDS;
+
+type SealedRecord = Record<string, unknown> & { encrypted: EncryptedPayload };
+
+export const isSealedRecord = (record: unknown): record is SealedRecord => {
+  return !!record && typeof record === 'object' && isEncryptedPayload((record as SealedRecord).encrypted);
+};
+
+// Sealed before one of its fields stopped being kept in plaintext, so it has to be sealed again
+export const hasUnsealedFields = (table: SealedTable, record: object) => {
+  const plaintextFields: readonly string[] = PLAINTEXT_FIELDS[table];
+  return Object.keys(record).some(field => field !== 'encrypted' && !plaintextFields.includes(field));
+};
+
+// Move every non-indexed field into an AES-GCM payload; records pass through unchanged without a key
+export const sealRecord = async <T extends object>(table: SealedTable, record: T, vaultKey?: VaultKey): Promise<T> => {
+  if (!vaultKey || isSealedRecord(record)) return record;
+
+  const plaintextFields: readonly string[] = PLAINTEXT_FIELDS[table];
+  const visible: Record<string, unknown> = {};
+  const secret: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(record)) {
+    if (plaintextFields.includes(field)) {
+      visible[field] = value;
+    } else {
+      secret[field] = value;
+    }
+  }
+
+  const encrypted = await encryptWithKey(vaultKey.key, JSON.stringify(secret), vaultKey.salt, PBKDF2_ITERATIONS);
+  return { ...visible, encrypted } as T;
+};
+
+export const openRecord = async <T extends object>(record: T | undefined, vaultKey?: VaultKey): Promise<T | undefined> => {
+  if (!record || !isSealedRecord(record)) return record;
+  if (!vaultKey) throw new VaultLockedError();
+
+  const { encrypted, ...visible } = record;
+  const secret = JSON.parse(await decryptWithKey(vaultKey.key, encrypted));
+  return { ...visible, ...secret } as T;
+};
+
+// Whether a passphrase opens a record sealed under the given salt
+export const opensSealedRecord = async (record: object, passphrase: string, salt: string): Promise<boolean> => {
+  const saltBytes = fromBase64(salt);
+  try {
+    await openRecord(record, { key: await deriveKey(passphrase, saltBytes), salt: saltBytes });
+    return true;
+  } catch {
+    return false;
+  }
+};
@@ -1,15 +1,21 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Brain, CheckCircle, Clock, Lightbulb, Target, TrendingUp, MessageCircle } from 'lucide-react';
+import { Brain, CheckCircle, Clock, Lightbulb, Target, TrendingUp, MessageCircle, AlertTriangle, ListChecks, Search, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import Layout from '@/components/Layout';
+import ClarificationForm from '@/components/ClarificationForm';
+import AnalysisHistoryDialog from '@/components/AnalysisHistoryDialog';
 import { useAuthStore, useProfileStore, useAnalysisStore, useSettingsStore } from '@/lib/stores';
-import { generateCareerAnalysis, mockAnalysisData } from '@/lib/openai';
-import { db } from '@/lib/db';
+import { generateCareerAnalysis } from '@/lib/analysisPipeline';
+import { DEMO_PROVIDER_SETTINGS } from '@/lib/mockProvider';
+import { AnalysisValidationError, type AnalysisContent } from '@/lib/analysisSchema';
+import { saveAnalysis, getLatestAnalysis, linkCachedResponse } from '@/lib/db';
+import { LLMCancelledError, describeLLMError } from '@/lib/llmErrors';
 import { toast } from '@/hooks/use-toast';
 
 const AnalysisPage: React.FC = () => {
@@ -19,6 +25,12 @@ const AnalysisPage: React.FC = () => {
   const { analysis, isAnalyzing, analysisStep, progress, setAnalysis, setAnalyzing, setAnalysisStep, setProgress } = useAnalysisStore();
   const { isKeyValid } = useSettingsStore();
   const [demoMode, setDemoMode] = useState(false);
+  const [validationIssues, setValidationIssues] = useState<string[]>([]);
+  const [canResume, setCanResume] = useState(false);
+  const [pendingQuestions, setPendingQuestions] = useState<{ questions: string[]; round: number } | null>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     if (!analysis && profile && currentUser) {
@@ -26,91 +38,129 @@ const AnalysisPage: React.FC = () => {
     }
   }, [profile, currentUser]);
 
+  // Stop any in-flight analysis when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   const analysisSteps = [
     { id: 'understanding', title: 'Understanding Your Profile', icon: Brain },
-    { id: 'clarifying', title: 'Identifying Opportunities', icon: Lightbulb },
-    { id: 'exploring', title: 'Exploring Career Paths', icon: Target },
+    { id: 'clarifying', title: 'Clarifying Your Goals', icon: Lightbulb },
+    { id: 'exploring', title: 'Exploring Opportunities', icon: Search },
     { id: 'planning', title: 'Creating Plans A, B, C', icon: TrendingUp },
-    { id: 'deep-dive', title: 'Deep Dive Analysis', icon: CheckCircle },
+    { id: 'deep-dive', title: 'Deep Dive on Plan A', icon: Target },
+    { id: 'roadmap', title: 'Building Your Roadmap', icon: ListChecks },
     { id: 'complete', title: 'Analysis Complete', icon: CheckCircle }
-  ];
+  ] as const;
 
-  const startAnalysis = async (useDemoMode = false) => {
+  const startAnalysis = async (useDemoMode = false, clarificationAnswers?: string[], regenerate = false) => {
     if (!profile || !currentUser?.id || !profileType) return;
 
-    setDemoMode(useDemoMode);
+    // Without a working key, the offline mock provider stands in
+    const isDemo = useDemoMode || !isKeyValid;
+    setDemoMode(isDemo);
+    setValidationIssues([]);
+    setPendingQuestions(null);
+    setCachedAt(null);
     setAnalyzing(true);
     setProgress(0);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      // Simulate analysis steps
-      for (let i = 0; i < analysisSteps.length; i++) {
-        setAnalysisStep(analysisSteps[i].id as any);
-        setProgress((i + 1) * (100 / analysisSteps.length));
-        
-        // Simulate processing time
-        await new Promise(resolve => setTimeout(resolve, useDemoMode ? 800 : 2000));
-      }
+      // Generate the analysis stage by stage; completed stages from a failed run are reused
+      const outcome = await generateCareerAnalysis(currentUser.id, profile, profileType, {
+        clarificationAnswers,
+        signal: controller.signal,
+        providerSettings: isDemo ? DEMO_PROVIDER_SETTINGS : undefined,
+        regenerate,
+        onProgress: (stage, stageProgress) => {
+          setAnalysisStep(stage);
+          setProgress(stageProgress);
+        }
+      });
 
-      let analysisResult;
-      
-      if (useDemoMode || !isKeyValid) {
-        // Use mock data for demo
-        analysisResult = mockAnalysisData;
-        toast({
-          title: "Demo Analysis Complete",
-          description: "Using sample data. Configure your OpenAI key for personalized analysis."
-        });
-      } else {
-        // Generate real analysis with OpenAI
-        analysisResult = await generateCareerAnalysis(
-          profile,
-          profileType,
-          (step, prog) => {
-            setProgress(prog);
-          }
-        );
+      if (outcome.status === 'needs_clarification') {
+        setPendingQuestions({ questions: outcome.questions, round: outcome.round });
+        setAnalysisStep('clarifying');
+        return;
       }
+      const analysisResult: AnalysisContent = outcome.analysis;
 
       // Save analysis to database
       const analysisRecord = {
         userId: currentUser.id,
-        status: 'complete' as const,
-        clarifications: analysisResult.clarifications || [],
-        interestsConfirmed: analysisResult.interestsConfirmed || true,
+        status: analysisResult.status,
+        clarifications: analysisResult.clarifications,
+        clarificationAnswers: analysisResult.clarificationAnswers,
+        promptVersion: analysisResult.promptVersion,
+        profileType,
+        profileSnapshot: profile,
+        interestsConfirmed: analysisResult.interestsConfirmed,
         plans: analysisResult.plans,
         planADeepDive: analysisResult.planADeepDive,
         summary: analysisResult.summary,
         roadmap: analysisResult.roadmap,
         latest: true,
         createdAt: new Date(),
-        updatedAt: new Date(),
-        version: 1
+        updatedAt: new Date()
       };
 
-      // Mark previous analyses as not latest
-      await db.analyses.where({ userId: currentUser.id, latest: true }).modify({ latest: false });
-      
-      // Add new analysis
-      await db.analyses.add(analysisRecord);
-      setAnalysis(analysisRecord as any);
+      // Add new analysis as the next version (previous ones are unmarked). A cached result still shown
+      // by the latest version is reused; after a chat edit, restore or another model it's saved again.
+      const latest = outcome.cachedAt ? await getLatestAnalysis(currentUser.id) : undefined;
+      if (latest && latest.id === outcome.analysisId) {
+        setAnalysis(latest);
+      } else {
+        const saved = await saveAnalysis(analysisRecord);
+        setAnalysis(saved);
+        await linkCachedResponse(outcome.cacheKey, saved.id!)
+          .catch(error => console.error('Failed to link cached analysis:', error));
+      }
 
       setAnalysisStep('complete');
       setProgress(100);
+      setCanResume(false);
+      setCachedAt(outcome.cachedAt || null);
       
-      toast({
+      toast(outcome.cachedAt ? {
+        title: "Analysis Loaded",
+        description: "Your profile hasn't changed, so the previous result was reused without calling the AI."
+      } : isDemo ? {
+        title: "Demo Analysis Complete",
+        description: "Generated offline from your profile. Configure an AI provider for a full analysis."
+      } : {
         title: "Analysis Complete!",
         description: "Your personalized career roadmap is ready."
       });
 
     } catch (error) {
+      // Stages completed before the failure are saved and reused on the next attempt
+      setCanResume(true);
+
+      if (error instanceof LLMCancelledError) {
+        toast({
+          title: "Analysis Cancelled",
+          description: "Completed steps were saved. You can resume at any time."
+        });
+        return;
+      }
+
       console.error('Analysis failed:', error);
+      if (error instanceof AnalysisValidationError) {
+        setValidationIssues(error.issues);
+      }
+      const { title, description } = error instanceof AnalysisValidationError
+        ? { title: "Analysis Failed", description: error.message }
+        : describeLLMError(error);
       toast({
-        title: "Analysis Failed",
-        description: error instanceof Error ? error.message : "Please try again or use demo mode.",
+        title,
+        description: `${description} Completed steps were saved.`,
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
       setAnalyzing(false);
     }
   };
@@ -123,10 +173,40 @@ const AnalysisPage: React.FC = () => {
     startAnalysis(false);
   };
 
+  const handleRegenerate = () => {
+    startAnalysis(demoMode, undefined, true);
+  };
+
   const handleDemoMode = () => {
     startAnalysis(true);
   };
 
+  const handleCancelAnalysis = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleClarificationSubmit = (answers: string[]) => {
+    startAnalysis(demoMode, answers);
+  };
+
+  const validationAlert = validationIssues.length > 0 && (
+    <Alert variant="destructive" className="text-left">
+      <AlertTriangle className="w-4 h-4" />
+      <AlertTitle>The AI response could not be used</AlertTitle>
+      <AlertDescription>
+        <p className="mb-2">The analysis was returned in an unexpected format, even after asking the AI to correct it:</p>
+        <ul className="list-disc pl-4 space-y-1 text-xs">
+          {validationIssues.slice(0, 5).map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+        {validationIssues.length > 5 && (
+          <p className="mt-1 text-xs">and {validationIssues.length - 5} more</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+
   if (isAnalyzing) {
     const currentStepIndex = analysisSteps.findIndex(step => step.id === analysisStep);
     const currentStepData = analysisSteps[currentStepIndex] || analysisSteps[0];
@@ -172,6 +252,10 @@ const AnalysisPage: React.FC = () => {
                 <p className="text-sm text-muted-foreground">
                   {Math.round(progress)}% complete
                 </p>
+
+                <Button variant="outline" size="sm" className="mt-4" onClick={handleCancelAnalysis}>
+                  Cancel
+                </Button>
               </CardContent>
             </Card>
 
@@ -208,6 +292,26 @@ const AnalysisPage: React.FC = () => {
     );
   }
 
+  if (pendingQuestions) {
+    return (
+      <Layout>
+        <div className="min-h-screen flex items-center justify-center p-4">
+          <motion.div
+            className="w-full max-w-2xl"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <ClarificationForm
+              questions={pendingQuestions.questions}
+              round={pendingQuestions.round}
+              onSubmit={handleClarificationSubmit}
+            />
+          </motion.div>
+        </div>
+      </Layout>
+    );
+  }
+
   if (analysis) {
     return (
       <Layout>
@@ -227,8 +331,26 @@ const AnalysisPage: React.FC = () => {
               <p className="text-muted-foreground max-w-2xl mx-auto">
                 Based on your profile, we've identified three potential career paths and created a detailed roadmap for your top choice.
               </p>
+              {analysis.version && (
+                <Badge variant="outline">
+                  Version {analysis.version} · {new Date(analysis.createdAt).toLocaleDateString()}
+                </Badge>
+              )}
             </div>
 
+            {cachedAt && (
+              <Alert className="max-w-2xl mx-auto">
+                <History className="w-4 h-4" />
+                <AlertTitle>Reused result from {cachedAt.toLocaleString()}</AlertTitle>
+                <AlertDescription className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <span>Your profile, model and prompt are unchanged, so no new request was made.</span>
+                  <Button variant="outline" size="sm" onClick={handleRegenerate}>
+                    Regenerate Anyway
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Career Plans Grid */}
             <div className="grid md:grid-cols-3 gap-6">
               {['A', 'B', 'C'].map((planLetter, index) => {
@@ -352,6 +474,8 @@ const AnalysisPage: React.FC = () => {
               </motion.div>
             )}
 
+            {validationAlert}
+
             {/* Action Buttons */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -366,6 +490,10 @@ const AnalysisPage: React.FC = () => {
               <Button variant="outline" onClick={handleRetryAnalysis}>
                 Re-analyze Profile
               </Button>
+              <Button variant="outline" onClick={() => setHistoryOpen(true)}>
+                <History className="w-4 h-4 mr-2" />
+                Version History
+              </Button>
               {demoMode && (
                 <Button variant="outline" onClick={() => navigate('/settings')}>
                   Configure API Key for Real Analysis
@@ -374,6 +502,15 @@ const AnalysisPage: React.FC = () => {
             </motion.div>
           </div>
         </div>
+
+        <AnalysisHistoryDialog
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onRestore={(restored) => {
+            setAnalysis(restored);
+            setCachedAt(null);
+          }}
+        />
       </Layout>
     );
   }
@@ -394,9 +531,11 @@ const AnalysisPage: React.FC = () => {
             </p>
           </div>
 
+          {validationAlert}
+
           <div className="space-y-3">
             <Button onClick={handleRetryAnalysis} size="lg" className="w-full">
-              Start Career Analysis
+              {canResume ? 'Resume Analysis' : 'Start Career Analysis'}
             </Button>
             <Button onClick={handleDemoMode} variant="outline" className="w-full">
               Try Demo Mode
@@ -404,7 +543,7 @@ const AnalysisPage: React.FC = () => {
           </div>
 
           <p className="text-xs text-muted-foreground">
-            Demo mode uses sample data. Configure your OpenAI API key for personalized analysis.
+            Demo mode builds a sample analysis from your profile offline. Configure an AI provider for a full analysis.
           </p>
         </div>
       </div>
@@ -1,24 +1,88 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
-import { UserPlus, User, Lock, Eye, EyeOff } from 'lucide-react';
+import { useNavigate, useLocation } from 'react-router-dom';
+import { UserPlus, User, Lock, Eye, EyeOff, LogIn, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import Layout from '@/components/Layout';
-import { useAuthStore } from '@/lib/stores';
-import { db } from '@/lib/db';
+import { db, type LocalUser } from '@/lib/db';
+import { createLocalUser, getLocalProfiles, signInLocalUser, restoreUserSession } from '@/lib/auth';
+import { lockVault } from '@/lib/vault';
 import { toast } from '@/hooks/use-toast';
 
 const AuthPage: React.FC = () => {
   const navigate = useNavigate();
-  const { setCurrentUser } = useAuthStore();
-  const [mode, setMode] = useState<'select' | 'create' | 'password'>('select');
+  const location = useLocation();
+  const [mode, setMode] = useState<'select' | 'create' | 'signin' | 'password'>('select');
   const [profileName, setProfileName] = useState('');
   const [passphrase, setPassphrase] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [localProfiles, setLocalProfiles] = useState<LocalUser[]>([]);
+  const [selectedProfile, setSelectedProfile] = useState<LocalUser | null>(null);
+  const [signInError, setSignInError] = useState('');
+
+  useEffect(() => {
+    const lockedUserId = (location.state as { lockedUserId?: number } | null)?.lockedUserId;
+
+    getLocalProfiles()
+      .then((profiles) => {
+        setLocalProfiles(profiles);
+
+        // Returning to a locked profile after a reload: go straight to its passphrase prompt
+        const lockedProfile = profiles.find(profile => profile.id === lockedUserId);
+        if (lockedProfile) {
+          setSelectedProfile(lockedProfile);
+          setMode('password');
+        }
+      })
+      .catch((error) => console.error('Failed to load local profiles:', error));
+  }, [location.state]);
+
+  // Resume where the user left off
+  const navigateAfterSignIn = (hasAnalysis: boolean, profileStatus?: 'draft' | 'confirmed') => {
+    if (hasAnalysis || profileStatus === 'confirmed') {
+      navigate('/analysis');
+    } else if (profileStatus === 'draft') {
+      navigate('/onboarding/profile');
+    } else {
+      navigate('/onboarding/role');
+    }
+  };
+
+  const handleSignIn = async (profile: LocalUser, enteredPassphrase = '') => {
+    setLoading(true);
+    setSignInError('');
+    try {
+      const user = await signInLocalUser(profile.id!, enteredPassphrase);
+      const session = await restoreUserSession(user);
+
+      toast({
+        title: "Welcome back!",
+        description: `Signed in as ${user.name}.`
+      });
+
+      navigateAfterSignIn(!!session.analysis, session.profile?.status);
+    } catch (error) {
+      setSignInError(error instanceof Error ? error.message : 'Sign-in failed. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectProfile = (profile: LocalUser) => {
+    setSelectedProfile(profile);
+    setSignInError('');
+    setPassphrase('');
+
+    if (profile.passphraseProtected) {
+      setMode('password');
+    } else {
+      handleSignIn(profile);
+    }
+  };
 
   const handleGuestContinue = async () => {
     setLoading(true);
@@ -34,8 +98,11 @@ const AuthPage: React.FC = () => {
 
       const userId = await db.users.add(guestUser);
       const user = { ...guestUser, id: userId };
+
+      // Guests have no vault, so the previous user's records must not stay decryptable
+      lockVault();
       
-      setCurrentUser(user);
+      await restoreUserSession(user);
       toast({
         title: "Welcome!",
         description: "Continuing as guest. Your data will not persist beyond this session unless you create a profile."
@@ -65,19 +132,9 @@ const AuthPage: React.FC = () => {
 
     setLoading(true);
     try {
-      const newUser = {
-        name: profileName,
-        role: 'student' as const,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        isGuest: false,
-        passphraseProtected: !!passphrase
-      };
-
-      const userId = await db.users.add(newUser);
-      const user = { ...newUser, id: userId };
+      const user = await createLocalUser(profileName, passphrase || undefined);
       
-      setCurrentUser(user);
+      await restoreUserSession(user);
       toast({
         title: "Profile created!",
         description: `Welcome ${profileName}! Your profile has been created.`
@@ -160,9 +217,151 @@ const AuthPage: React.FC = () => {
                     </CardHeader>
                   </Card>
                 </motion.div>
+
+                {localProfiles.length > 0 && (
+                  <motion.div
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.5 }}
+                  >
+                    <Card className="glass cursor-pointer hover:shadow-lg transition-all duration-300"
+                          onClick={() => setMode('signin')}>
+                      <CardHeader className="text-center">
+                        <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center mx-auto mb-2">
+                          <LogIn className="w-6 h-6 text-primary" />
+                        </div>
+                        <CardTitle>Sign In</CardTitle>
+                        <CardDescription>
+                          Continue with one of {localProfiles.length} profile{localProfiles.length === 1 ? '' : 's'} on this device
+                        </CardDescription>
+                      </CardHeader>
+                    </Card>
+                  </motion.div>
+                )}
               </>
             )}
 
+            {mode === 'signin' && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Card className="glass">
+                  <CardHeader>
+                    <CardTitle>Choose Your Profile</CardTitle>
+                    <CardDescription>
+                      Profiles stored locally on this device
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {localProfiles.map((profile) => (
+                      <Button
+                        key={profile.id}
+                        variant="outline"
+                        className="w-full justify-between h-auto py-3"
+                        disabled={loading}
+                        onClick={() => handleSelectProfile(profile)}
+                      >
+                        <div className="flex items-center space-x-3">
+                          <User className="w-4 h-4" />
+                          <div className="text-left">
+                            <div className="font-medium">{profile.name}</div>
+                            <div className="text-xs text-muted-foreground capitalize">{profile.role}</div>
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          {profile.passphraseProtected && <Lock className="w-4 h-4 text-muted-foreground" />}
+                          <ChevronRight className="w-4 h-4" />
+                        </div>
+                      </Button>
+                    ))}
+
+                    {signInError && (
+                      <p className="text-sm text-destructive">{signInError}</p>
+                    )}
+
+                    <div className="pt-4">
+                      <Button 
+                        variant="outline" 
+                        onClick={() => setMode('select')}
+                        className="w-full"
+                      >
+                        Back
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
+
+            {mode === 'password' && selectedProfile && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3 }}
+              >
+                <Card className="glass">
+                  <CardHeader>
+                    <CardTitle>Welcome back, {selectedProfile.name}</CardTitle>
+                    <CardDescription>
+                      Enter your passphrase to unlock this profile
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-passphrase" className="flex items-center gap-2">
+                        <Lock className="w-4 h-4" />
+                        Passphrase
+                      </Label>
+                      <div className="relative">
+                        <Input
+                          id="signin-passphrase"
+                          type={showPassword ? 'text' : 'password'}
+                          value={passphrase}
+                          onChange={(e) => setPassphrase(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleSignIn(selectedProfile, passphrase)}
+                          autoFocus
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-0 top-0 h-full px-3"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </Button>
+                      </div>
+                      {signInError && (
+                        <p className="text-sm text-destructive">{signInError}</p>
+                      )}
+                    </div>
+
+                    <div className="flex gap-3 pt-4">
+                      <Button 
+                        variant="outline" 
+                        onClick={() => {
+                          setMode('signin');
+                          setSignInError('');
+                        }}
+                        className="flex-1"
+                      >
+                        Back
+                      </Button>
+                      <Button 
+                        onClick={() => handleSignIn(selectedProfile, passphrase)}
+                        disabled={loading || !passphrase}
+                        className="flex-1"
+                      >
+                        {loading ? 'Signing in...' : 'Sign In'}
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            )}
+
             {mode === 'create' && (
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
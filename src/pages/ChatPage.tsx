@@ -1,14 +1,35 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Send, MessageCircle, Settings, Bot, User, Sparkles } from 'lucide-react';
+import { Send, MessageCircle, Settings, Bot, User, Sparkles, PanelLeft, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import Layout from '@/components/Layout';
+import ChatThreadList from '@/components/ChatThreadList';
+import AnalysisProposalCard from '@/components/AnalysisProposalCard';
 import { useAuthStore, useProfileStore, useAnalysisStore, useChatStore, useSettingsStore } from '@/lib/stores';
-import { chatWithAssistant } from '@/lib/openai';
+import { chatWithAssistant } from '@/lib/chat';
+import { acceptAnalysisProposal, type AnalysisProposal } from '@/lib/analysisTools';
+import { DEMO_PROVIDER_SETTINGS } from '@/lib/mockProvider';
+import { estimateTokens } from '@/lib/tokens';
+import { 
+  createChatThread, 
+  getChatThreads, 
+  getChatMessages, 
+  addChatMessage, 
+  updateChatMessage, 
+  deleteChatMessage, 
+  renameChatThread, 
+  setChatThreadArchived, 
+  deleteChatThread, 
+  DEFAULT_CHAT_THREAD_TITLE, 
+  type ChatThread 
+} from '@/lib/db';
+import { LLMCancelledError, describeLLMError } from '@/lib/llmErrors';
+import { subscribeToChanges } from '@/lib/sync';
 import { toast } from '@/hooks/use-toast';
 
 interface Message {
@@ -17,42 +38,251 @@ interface Message {
   content: string;
   timestamp: Date;
   isStreaming?: boolean;
+  proposal?: AnalysisProposal;
 }
 
+const WELCOME_MESSAGE = `Hello! I'm your AI career assistant. I've analyzed your profile and created a personalized career roadmap. I'm here to help you with:
+
+• Clarifying your career plans and goals
+• Answering questions about your recommended path
+• Suggesting specific courses and resources
+• Helping with interview preparation
+• Adjusting timelines based on your constraints
+
+What would you like to discuss about your career journey?`;
+
+const buildThreadTitle = (message: string) => {
+  const title = message.replace(/\s+/g, ' ').trim();
+  return title.length > 40 ? `${title.slice(0, 40).trim()}…` : title;
+};
+
 const ChatPage: React.FC = () => {
   const { currentUser } = useAuthStore();
-  const { profile, profileType } = useProfileStore();
-  const { analysis } = useAnalysisStore();
-  const { messages, isStreaming, addMessage, updateLastMessage, setStreaming } = useChatStore();
+  const { profile, profileType, setProfile } = useProfileStore();
+  const { analysis, setAnalysis } = useAnalysisStore();
+  const { 
+    currentThreadId, 
+    messages, 
+    isStreaming, 
+    setCurrentThread, 
+    setMessages, 
+    addMessage, 
+    updateLastMessage, 
+    setStreaming 
+  } = useChatStore();
   const { isKeyValid } = useSettingsStore();
   const [inputMessage, setInputMessage] = useState('');
+  const [threads, setThreads] = useState<ChatThread[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [threadSheetOpen, setThreadSheetOpen] = useState(false);
+  const [resolvingProposal, setResolvingProposal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const userId = currentUser?.id;
+  const currentThread = threads.find(t => t.id === currentThreadId);
+
+  const refreshThreads = useCallback(async () => {
+    if (!userId) return [];
+    const userThreads = await getChatThreads(userId);
+    setThreads(userThreads);
+    return userThreads;
+  }, [userId]);
+
+  // Load a thread's messages into the chat store, seeding empty threads with the welcome message
+  const openThread = useCallback(async (threadId: number) => {
+    // Replies are saved empty until they finish; skip ones still streaming elsewhere or cut off by a closed tab
+    const storedMessages = (await getChatMessages(threadId))
+      .filter(message => message.role !== 'assistant' || !!message.content);
+
+    if (storedMessages.length === 0) {
+      const welcomeMessage = {
+        threadId,
+        role: 'assistant' as const,
+        content: WELCOME_MESSAGE,
+        createdAt: new Date(),
+        tokens: estimateTokens(WELCOME_MESSAGE)
+      };
+      const id = await addChatMessage(welcomeMessage);
+      storedMessages.push({ ...welcomeMessage, id });
+    }
+
+    setCurrentThread(threadId);
+    setMessages(storedMessages.map(m => ({
+      id: `msg-${m.id}`,
+      role: m.role,
+      content: m.content,
+      timestamp: new Date(m.createdAt),
+      dbId: m.id,
+      proposal: m.annotations?.proposal
+    })));
+  }, [setCurrentThread, setMessages]);
 
+  const startNewThread = useCallback(async () => {
+    if (!userId) return;
+    const thread = await createChatThread(userId);
+    await openThread(thread.id!);
+    await refreshThreads();
+  }, [userId, openThread, refreshThreads]);
+
+  // Open the most recent active thread, or start a new one if none are left
+  const openFallbackThread = useCallback(async (userThreads: ChatThread[]) => {
+    const nextThread = userThreads.find(t => !t.archived);
+    if (nextThread) {
+      await openThread(nextThread.id!);
+    } else {
+      await startNewThread();
+    }
+  }, [openThread, startNewThread]);
+
+  // Restore the current thread (or the user's most recent one) from IndexedDB
   useEffect(() => {
-    if (!isInitialized && analysis) {
-      // Add welcome message
-      addMessage({
-        role: 'assistant',
-        content: `Hello! I'm your AI career assistant. I've analyzed your profile and created a personalized career roadmap. I'm here to help you with:
+    if (isInitialized || !analysis || !userId) return;
 
-• Clarifying your career plans and goals
-• Answering questions about your recommended path
-• Suggesting specific courses and resources
-• Helping with interview preparation
-• Adjusting timelines based on your constraints
+    const loadThreads = async () => {
+      try {
+        const userThreads = await refreshThreads();
+        const { currentThreadId: storedThreadId } = useChatStore.getState();
+        const storedThread = userThreads.find(t => t.id === storedThreadId);
+
+        if (storedThread) {
+          await openThread(storedThread.id!);
+        } else {
+          await openFallbackThread(userThreads);
+        }
+        setIsInitialized(true);
+      } catch (error) {
+        console.error('Failed to load chat history:', error);
+        toast({
+          title: "Chat Error",
+          description: "Failed to load your conversation history.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    loadThreads();
+  }, [analysis, userId, isInitialized, refreshThreads, openThread, openFallbackThread]);
+
+  // Follow threads and messages changed in other tabs; a reply streaming here is left alone
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    return subscribeToChanges(async (event) => {
+      if (event.type !== 'chat') return;
+
+      try {
+        const userThreads = await refreshThreads();
+        const { currentThreadId: openThreadId, isStreaming: streaming } = useChatStore.getState();
+        if (streaming) return;
+
+        if (!userThreads.some(t => t.id === openThreadId)) {
+          await openFallbackThread(userThreads);
+        } else if (event.threadId === openThreadId) {
+          await openThread(openThreadId);
+        }
+      } catch (error) {
+        console.warn('Failed to apply a chat change from another tab:', error);
+      }
+    });
+  }, [isInitialized, refreshThreads, openThread, openFallbackThread]);
+
+  const handleSelectThread = async (threadId: number) => {
+    setThreadSheetOpen(false);
+    if (threadId === currentThreadId || isStreaming) return;
+
+    try {
+      await openThread(threadId);
+    } catch (error) {
+      console.error('Failed to open thread:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to open this conversation.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleNewThread = async () => {
+    setThreadSheetOpen(false);
+    if (isStreaming) return;
+
+    try {
+      await startNewThread();
+    } catch (error) {
+      console.error('Failed to create thread:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to start a new conversation.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRenameThread = async (threadId: number, title: string) => {
+    try {
+      await renameChatThread(threadId, title);
+      await refreshThreads();
+    } catch (error) {
+      console.error('Failed to rename thread:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to rename this conversation.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleArchiveThread = async (threadId: number, archived: boolean) => {
+    try {
+      await setChatThreadArchived(threadId, archived);
+      const userThreads = await refreshThreads();
+      if (archived && threadId === currentThreadId) {
+        await openFallbackThread(userThreads);
+      }
+    } catch (error) {
+      console.error('Failed to archive thread:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to update this conversation.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteThread = async (threadId: number) => {
+    if (!confirm("Delete this conversation and all of its messages? This action cannot be undone.")) return;
 
-What would you like to discuss about your career journey?`
+    try {
+      await deleteChatThread(threadId);
+      const userThreads = await refreshThreads();
+      if (threadId === currentThreadId) {
+        await openFallbackThread(userThreads);
+      }
+      toast({
+        title: "Conversation Deleted",
+        description: "The conversation and its messages have been removed."
+      });
+    } catch (error) {
+      console.error('Failed to delete thread:', error);
+      toast({
+        title: "Chat Error",
+        description: "Failed to delete this conversation.",
+        variant: "destructive"
       });
-      setIsInitialized(true);
     }
-  }, [analysis, isInitialized, addMessage]);
+  };
 
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
+  // Stop a streaming reply when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -60,60 +290,158 @@ What would you like to discuss about your career journey?`
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isStreaming) return;
     
-    if (!isKeyValid) {
-      toast({
-        title: "API Key Required",
-        description: "Please configure your OpenAI API key in Settings to chat with the assistant.",
-        variant: "destructive"
-      });
-      return;
-    }
+    if (!currentThreadId) return;
 
+    const threadId = currentThreadId;
     const userMessage = inputMessage.trim();
+    const chatHistory = messages.map(m => ({ role: m.role, content: m.content, dbId: m.dbId }));
     setInputMessage('');
+    setStreaming(true);
 
-    // Add user message
-    addMessage({
-      role: 'user',
-      content: userMessage
-    });
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    let assistantMessageId: number | undefined;
+    let streamedReply = '';
 
-    // Add assistant message placeholder
-    addMessage({
-      role: 'assistant',
-      content: '',
-      isStreaming: true
-    });
+    try {
+      // Persist and add user message
+      const userMessageId = await addChatMessage({
+        threadId,
+        role: 'user',
+        content: userMessage,
+        createdAt: new Date(),
+        tokens: estimateTokens(userMessage)
+      });
+      addMessage({
+        role: 'user',
+        content: userMessage,
+        dbId: userMessageId
+      });
 
-    setStreaming(true);
+      // Persist and add assistant message placeholder
+      assistantMessageId = await addChatMessage({
+        threadId,
+        role: 'assistant',
+        content: '',
+        createdAt: new Date()
+      });
+      addMessage({
+        role: 'assistant',
+        content: '',
+        isStreaming: true,
+        dbId: assistantMessageId
+      });
 
-    try {
       const context = {
+        threadId,
         profile: profile!,
+        profileType,
         analysis,
-        chatHistory: messages.map(m => ({ role: m.role, content: m.content }))
+        chatHistory,
+        // Without a working key, replies come from the offline mock provider
+        providerSettings: isKeyValid ? undefined : DEMO_PROVIDER_SETTINGS
       };
 
-      await chatWithAssistant(
+      const reply = await chatWithAssistant(
         userMessage,
         context,
         (streamedContent) => {
+          streamedReply = streamedContent;
           updateLastMessage(streamedContent);
-        }
+        },
+        controller.signal
       );
+
+      // Proposed analysis changes wait on the message until the user accepts or rejects them
+      const proposal: AnalysisProposal | undefined = reply.changes.length > 0
+        ? { changes: reply.changes, status: 'pending' }
+        : undefined;
+      updateLastMessage(reply.content, { isStreaming: false, proposal });
+      await updateChatMessage(assistantMessageId, {
+        content: reply.content,
+        tokens: estimateTokens(reply.content),
+        ...(proposal ? { annotations: { proposal } } : {})
+      });
+
+      // Auto-title the thread from its first exchange
+      if (currentThread?.title === DEFAULT_CHAT_THREAD_TITLE) {
+        await renameChatThread(threadId, buildThreadTitle(userMessage));
+      }
+      await refreshThreads();
     } catch (error) {
+      if (error instanceof LLMCancelledError && assistantMessageId) {
+        // Keep whatever was streamed before the user stopped the reply
+        if (streamedReply) {
+          updateLastMessage(streamedReply, { isStreaming: false });
+          await updateChatMessage(assistantMessageId, {
+            content: streamedReply,
+            tokens: estimateTokens(streamedReply)
+          }).catch(() => undefined);
+        } else {
+          setMessages(useChatStore.getState().messages.slice(0, -1));
+          await deleteChatMessage(assistantMessageId).catch(() => undefined);
+        }
+        return;
+      }
+
       console.error('Chat error:', error);
-      updateLastMessage("I apologize, but I encountered an error. Please check your API key configuration and try again.");
+      const { title, description } = describeLLMError(error);
+      // Drop the failed placeholder so it doesn't pollute the saved history
+      if (assistantMessageId) {
+        updateLastMessage(`I apologize, but I couldn't respond: ${description}`, { isStreaming: false });
+        await deleteChatMessage(assistantMessageId).catch(() => undefined);
+      }
       toast({
-        title: "Chat Error",
-        description: error instanceof Error ? error.message : "Failed to get response from assistant.",
+        title,
+        description,
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
       setStreaming(false);
     }
   };
 
+  const handleResolveProposal = async (messageId: string, accept: boolean) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.proposal || !analysis || !profile || !profileType) return;
+
+    setResolvingProposal(true);
+    try {
+      let resolved: AnalysisProposal = { ...message.proposal, status: 'rejected' };
+      if (accept) {
+        const saved = await acceptAnalysisProposal(message.proposal, analysis, profile, profileType);
+        if (saved.profile) setProfile(saved.profile, profileType);
+        if (saved.analysis) setAnalysis(saved.analysis);
+        resolved = { ...message.proposal, status: 'accepted', analysisId: saved.analysis?.id };
+        toast({
+          title: "Changes Saved",
+          description: saved.analysis
+            ? `Your analysis was updated to version ${saved.analysis.version}.`
+            : "Your preferences were updated. Run a new analysis to re-plan around them."
+        });
+      }
+
+      if (message.dbId) {
+        await updateChatMessage(message.dbId, { annotations: { proposal: resolved } });
+      }
+      setMessages(useChatStore.getState().messages.map(m => (m.id === messageId ? { ...m, proposal: resolved } : m)));
+    } catch (error) {
+      console.error('Failed to apply proposed changes:', error);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save the proposed changes. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setResolvingProposal(false);
+    }
+  };
+
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -161,16 +489,24 @@ What would you like to discuss about your career journey?`
       <div className="min-h-screen flex flex-col">
         {/* Header */}
         <div className="border-b border-border/50 bg-background/80 backdrop-blur-sm">
-          <div className="max-w-4xl mx-auto px-4 py-4">
+          <div className="max-w-6xl mx-auto px-4 py-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-3">
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  className="md:hidden" 
+                  onClick={() => setThreadSheetOpen(true)}
+                >
+                  <PanelLeft className="w-4 h-4" />
+                </Button>
                 <div className="w-10 h-10 bg-primary/10 rounded-full flex items-center justify-center">
                   <Bot className="w-5 h-5 text-primary" />
                 </div>
                 <div>
                   <h1 className="text-lg font-semibold">AI Career Assistant</h1>
                   <p className="text-sm text-muted-foreground">
-                    Personalized guidance based on your analysis
+                    {currentThread?.title || 'Personalized guidance based on your analysis'}
                   </p>
                 </div>
               </div>
@@ -181,8 +517,42 @@ What would you like to discuss about your career journey?`
           </div>
         </div>
 
+        {/* Mobile Thread List */}
+        <Sheet open={threadSheetOpen} onOpenChange={setThreadSheetOpen}>
+          <SheetContent side="left" className="p-0 w-72">
+            <SheetHeader className="p-4 pb-0">
+              <SheetTitle>Conversations</SheetTitle>
+            </SheetHeader>
+            <ChatThreadList
+              threads={threads}
+              currentThreadId={currentThreadId}
+              disabled={isStreaming}
+              onSelect={handleSelectThread}
+              onCreate={handleNewThread}
+              onRename={handleRenameThread}
+              onArchive={handleArchiveThread}
+              onDelete={handleDeleteThread}
+            />
+          </SheetContent>
+        </Sheet>
+
         {/* Chat Area */}
-        <div className="flex-1 flex max-w-4xl w-full mx-auto">
+        <div className="flex-1 flex max-w-6xl w-full mx-auto">
+          {/* Thread Sidebar */}
+          <aside className="hidden md:flex w-64 flex-shrink-0 border-r border-border/50 bg-background/50">
+            <ChatThreadList
+              threads={threads}
+              currentThreadId={currentThreadId}
+              disabled={isStreaming}
+              className="w-full"
+              onSelect={handleSelectThread}
+              onCreate={handleNewThread}
+              onRename={handleRenameThread}
+              onArchive={handleArchiveThread}
+              onDelete={handleDeleteThread}
+            />
+          </aside>
+
           {/* Messages */}
           <div className="flex-1 flex flex-col">
             <ScrollArea className="flex-1 p-4">
@@ -192,7 +562,7 @@ What would you like to discuss about your career journey?`
                     key={message.id}
                     initial={{ opacity: 0, y: 10 }}
                     animate={{ opacity: 1, y: 0 }}
-                    transition={{ delay: index * 0.1 }}
+                    transition={{ delay: Math.min(index * 0.1, 0.5) }}
                     className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
                   >
                     <div className={`chat-message ${message.role} max-w-[80%]`}>
@@ -213,6 +583,16 @@ What would you like to discuss about your career journey?`
                               </div>
                             )}
                           </div>
+                          {message.proposal && (
+                            <AnalysisProposalCard
+                              proposal={message.proposal}
+                              analysis={analysis}
+                              profile={profile}
+                              disabled={resolvingProposal || isStreaming}
+                              onAccept={() => handleResolveProposal(message.id, true)}
+                              onReject={() => handleResolveProposal(message.id, false)}
+                            />
+                          )}
                           <div className="text-xs text-muted-foreground mt-1">
                             {message.timestamp.toLocaleTimeString([], { 
                               hour: '2-digit', 
@@ -270,19 +650,30 @@ What would you like to discuss about your career journey?`
                   disabled={isStreaming}
                   className="flex-1"
                 />
-                <Button 
-                  onClick={handleSendMessage}
-                  disabled={!inputMessage.trim() || isStreaming}
-                  size="sm"
-                >
-                  <Send className="w-4 h-4" />
-                </Button>
+                {isStreaming ? (
+                  <Button 
+                    onClick={handleStopStreaming}
+                    variant="outline"
+                    size="sm"
+                    title="Stop generating"
+                  >
+                    <Square className="w-4 h-4" />
+                  </Button>
+                ) : (
+                  <Button 
+                    onClick={handleSendMessage}
+                    disabled={!inputMessage.trim()}
+                    size="sm"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
               
               {!isKeyValid && (
                 <div className="mt-2 p-2 bg-warning/10 border border-warning/20 rounded-md">
                   <p className="text-xs text-warning-foreground">
-                    Configure your OpenAI API key in Settings to enable chat functionality.
+                    Demo mode: replies are generated offline. Configure an AI provider in Settings for personalized answers.
                   </p>
                 </div>
               )}
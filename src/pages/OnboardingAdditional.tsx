@@ -9,38 +9,41 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import Layout from '@/components/Layout';
-import { useAuthStore, useProfileStore } from '@/lib/stores';
+import { useProfileStore } from '@/lib/stores';
+import { saveProfile, type ProfilePreferences, type StudentProfile, type ProfessionalProfile } from '@/lib/db';
 import { toast } from '@/hooks/use-toast';
 
 const OnboardingAdditional: React.FC = () => {
   const navigate = useNavigate();
-  const { currentUser } = useAuthStore();
-  const { profile, profileType, updateProfile } = useProfileStore();
-  const [preferences, setPreferences] = useState<{
-    timeline: '3-months' | '6-months' | '12-months';
-    budget: 'free' | 'budget-friendly' | 'premium';
-    remote: boolean;
-    relocation: boolean;
-    learningStyle: 'self-paced' | 'structured' | 'mentored';
-  }>({
+  const { profile, profileType, setProfile } = useProfileStore();
+  const [preferences, setPreferences] = useState<ProfilePreferences>(profile?.preferences ?? {
     timeline: '6-months',
     budget: 'budget-friendly',
     remote: true,
     relocation: false,
     learningStyle: 'self-paced'
   });
-  const [additionalInfo, setAdditionalInfo] = useState('');
+  const [additionalInfo, setAdditionalInfo] = useState(profile?.notes ?? '');
   const [isConfirming, setIsConfirming] = useState(false);
 
   const handleCompleteProfile = async () => {
     setIsConfirming(true);
     
     try {
-      // Update profile with preferences and mark as confirmed
-      updateProfile({
+      if (!profile || !profileType) {
+        throw new Error('No profile to confirm');
+      }
+
+      // Save preferences and notes and mark the profile as confirmed
+      const confirmedProfile = {
+        ...profile,
         preferences,
-        status: 'confirmed'
-      });
+        notes: additionalInfo.trim() || undefined,
+        status: 'confirmed' as const,
+        updatedAt: new Date()
+      };
+      await saveProfile(confirmedProfile, profileType);
+      setProfile(confirmedProfile as StudentProfile | ProfessionalProfile, profileType);
 
       toast({
         title: "Profile completed!",
@@ -50,6 +53,7 @@ const OnboardingAdditional: React.FC = () => {
       // Navigate to analysis page
       navigate('/analysis');
     } catch (error) {
+      console.error('Failed to complete profile:', error);
       toast({
         title: "Error",
         description: "Failed to complete profile. Please try again.",
@@ -67,6 +71,8 @@ const OnboardingAdditional: React.FC = () => {
         `Education: ${(profile as any)?.education?.[0]?.degree || 'Not specified'}`,
         `Skills: ${profile?.skills?.length || 0} listed`,
         `Interests: ${(profile as any)?.interests?.length || 0} areas`,
+        `Projects: ${profile?.projects?.length || 0} listed`,
+        `Internships: ${(profile as StudentProfile | null)?.internships?.length || 0} listed`,
         `Locations: ${profile?.preferredLocations?.length || 0} preferred`
       ]
     },
@@ -76,6 +82,8 @@ const OnboardingAdditional: React.FC = () => {
         `Experience: ${(profile as any)?.yearsExperience || 0} years`,
         `Current Role: ${(profile as any)?.role || 'Not specified'}`,
         `Skills: ${profile?.skills?.length || 0} listed`,
+        `Projects: ${profile?.projects?.length || 0} listed`,
+        `Certifications: ${(profile as ProfessionalProfile | null)?.certifications?.length || 0} held`,
         `Locations: ${profile?.preferredLocations?.length || 0} preferred`
       ]
     }
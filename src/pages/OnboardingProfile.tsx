@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { useForm, useFieldArray, Controller, type FieldPath } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Plus, X, Save, ArrowRight } from 'lucide-react';
@@ -14,11 +14,37 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import Layout from '@/components/Layout';
 import ProgressStepper from '@/components/ProgressStepper';
-import { useAuthStore, useProfileStore } from '@/lib/stores';
-import { db, type StudentProfile, type ProfessionalProfile } from '@/lib/db';
+import TagInput from '@/components/TagInput';
+import { useAuthStore, useProfileStore, type ProfileField } from '@/lib/stores';
+import { saveProfile as saveStoredProfile, type ProfilePreferences, type StudentProfile, type ProfessionalProfile } from '@/lib/db';
 import { toast } from '@/hooks/use-toast';
 
 // Validation schemas
+// Students add a link to a project, professionals describe its impact
+const projectSchema = z.object({
+  name: z.string().trim().min(1, "Project name is required"),
+  description: z.string().trim().min(1, "Describe what the project does"),
+  technologies: z.array(z.string()),
+  url: z.union([z.literal(''), z.string().url("Enter a valid URL")]).optional(),
+  impact: z.string().optional()
+});
+
+const internshipSchema = z.object({
+  company: z.string().trim().min(1, "Company is required"),
+  role: z.string().trim().min(1, "Role is required"),
+  duration: z.string(),
+  description: z.string()
+});
+
+const salaryRangeSchema = z.object({
+  min: z.number({ invalid_type_error: "Enter a number" }).min(0, "Salary can't be negative"),
+  max: z.number({ invalid_type_error: "Enter a number" }).min(0, "Salary can't be negative"),
+  currency: z.string().trim().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code, e.g. USD")
+}).refine(range => range.max === 0 || range.max >= range.min, {
+  message: "Maximum must be at least the minimum",
+  path: ['max']
+});
+
 const studentSchema = z.object({
   education: z.array(z.object({
     level: z.string().min(1, "Education level is required"),
@@ -33,6 +59,8 @@ const studentSchema = z.object({
     level: z.enum(['Beginner', 'Intermediate', 'Advanced'])
   })),
   interests: z.array(z.string()),
+  projects: z.array(projectSchema),
+  internships: z.array(internshipSchema),
   preferredLocations: z.array(z.string()),
   workAuthorization: z.string()
 });
@@ -40,23 +68,113 @@ const studentSchema = z.object({
 const professionalSchema = z.object({
   company: z.string().min(1, "Company is required"),
   role: z.string().min(1, "Role is required"),
-  yearsExperience: z.number().min(0),
+  yearsExperience: z.number({ invalid_type_error: "Enter a number" }).min(0, "Years can't be negative"),
+  domains: z.array(z.string()),
+  projects: z.array(projectSchema),
+  stack: z.array(z.string()),
+  certifications: z.array(z.string()),
   skills: z.array(z.object({
     name: z.string(),
     level: z.enum(['Beginner', 'Intermediate', 'Advanced', 'Expert'])
   })),
   desiredRoles: z.array(z.string()),
+  salaryRange: salaryRangeSchema,
   preferredLocations: z.array(z.string())
 });
 
+// One form holds either role's fields; only the active role's schema validates it
+type ProfileFormValues = z.infer<typeof studentSchema> & z.infer<typeof professionalSchema>;
+
+type ProjectEntry = z.infer<typeof projectSchema>;
+
+const emptyProject: ProjectEntry = { name: '', description: '', technologies: [], url: '', impact: '' };
+const emptyInternship = { company: '', role: '', duration: '', description: '' };
+
+// Number inputs give '' when cleared
+const toNumber = (value: string) => (value === '' ? 0 : Number(value));
+
+const toProjectEntry = (project: Partial<ProjectEntry>): ProjectEntry => ({
+  name: project.name ?? '',
+  description: project.description ?? '',
+  technologies: project.technologies ?? [],
+  url: project.url ?? '',
+  impact: project.impact ?? ''
+});
+
+// The form's view of a saved profile; skills, interests and locations are kept outside the form
+const toFormValues = (profile: StudentProfile | ProfessionalProfile | null, isStudent: boolean): Partial<ProfileFormValues> => {
+  if (isStudent) {
+    const student = profile as StudentProfile | null;
+    return {
+      education: student?.education?.length
+        ? student.education
+        : [{ level: '', school: '', degree: '', major: '', graduationDate: '', gpa: '' }],
+      projects: (student?.projects ?? []).map(toProjectEntry),
+      internships: student?.internships ?? [],
+      workAuthorization: student?.workAuthorization ?? ''
+    };
+  }
+
+  const professional = profile as ProfessionalProfile | null;
+  return {
+    company: professional?.company ?? '',
+    role: professional?.role ?? '',
+    yearsExperience: professional?.yearsExperience ?? 0,
+    domains: professional?.domains ?? [],
+    projects: (professional?.projects ?? []).map(toProjectEntry),
+    stack: professional?.stack ?? [],
+    certifications: professional?.certifications ?? [],
+    desiredRoles: professional?.desiredRoles ?? [],
+    salaryRange: professional?.salaryRange ?? { min: 0, max: 0, currency: 'USD' }
+  };
+};
+
+// The profile fields the form edits, in the shape they're saved in
+const fromFormValues = (values: Partial<ProfileFormValues>, isStudent: boolean): Record<string, unknown> => isStudent ? {
+  education: values.education || [],
+  projects: (values.projects || []).map(({ name, description, technologies, url }) => ({
+    name,
+    description,
+    technologies,
+    url: url || undefined
+  })),
+  internships: values.internships || [],
+  workAuthorization: values.workAuthorization || ''
+} : {
+  company: values.company || '',
+  role: values.role || '',
+  yearsExperience: values.yearsExperience || 0,
+  domains: values.domains || [],
+  projects: (values.projects || []).map(({ name, description, technologies, impact }) => ({
+    name,
+    description,
+    technologies,
+    impact: impact || ''
+  })),
+  stack: values.stack || [],
+  certifications: values.certifications || [],
+  desiredRoles: values.desiredRoles || [],
+  salaryRange: {
+    min: values.salaryRange?.min || 0,
+    max: values.salaryRange?.max || 0,
+    currency: values.salaryRange?.currency?.trim().toUpperCase() || 'USD'
+  }
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-sm text-destructive mt-1">{message}</p> : null;
+
 const OnboardingProfile: React.FC = () => {
   const navigate = useNavigate();
   const { currentUser } = useAuthStore();
-  const { setProfile } = useProfileStore();
+  const { profile: storedProfile, remoteRevision, setProfile, updateProfile } = useProfileStore();
   const [currentStep, setCurrentStep] = useState(0);
-  const [skills, setSkills] = useState<Array<{ name: string; level: string }>>([]);
-  const [interests, setInterests] = useState<string[]>([]);
-  const [locations, setLocations] = useState<string[]>([]);
+  // Returning to this page edits the saved profile rather than starting over
+  const [skills, setSkills] = useState<Array<{ name: string; level: string }>>(storedProfile?.skills ?? []);
+  const [interests, setInterests] = useState<string[]>((storedProfile as StudentProfile | null)?.interests ?? []);
+  const [locations, setLocations] = useState<string[]>(storedProfile?.preferredLocations ?? []);
   const [newSkill, setNewSkill] = useState({ name: '', level: 'Intermediate' });
   const [newInterest, setNewInterest] = useState('');
   const [newLocation, setNewLocation] = useState('');
@@ -66,43 +184,44 @@ const OnboardingProfile: React.FC = () => {
   const schema = isStudent ? studentSchema : professionalSchema;
 
   // Form setup
-  const form = useForm({
+  const form = useForm<ProfileFormValues>({
     resolver: zodResolver(schema),
-    defaultValues: isStudent ? {
-      education: [{ level: '', school: '', degree: '', major: '', graduationDate: '', gpa: '' }],
+    defaultValues: {
+      ...toFormValues(storedProfile, isStudent),
       skills: [],
       interests: [],
-      preferredLocations: [],
-      workAuthorization: ''
-    } : {
-      company: '',
-      role: '',
-      yearsExperience: 0,
-      skills: [],
-      desiredRoles: [],
       preferredLocations: []
     }
   });
+  const projects = useFieldArray({ control: form.control, name: 'projects' });
+  const internships = useFieldArray({ control: form.control, name: 'internships' });
+  const { errors } = form.formState;
 
   const steps = isStudent ? [
     { id: 'education', title: 'Education', description: 'Academic background' },
     { id: 'skills', title: 'Skills', description: 'Technical & soft skills' },
     { id: 'interests', title: 'Interests', description: 'Career interests' },
+    { id: 'projects', title: 'Experience', description: 'Projects & internships' },
     { id: 'preferences', title: 'Preferences', description: 'Location & work style' }
   ] : [
     { id: 'experience', title: 'Experience', description: 'Work background' },
     { id: 'skills', title: 'Skills', description: 'Professional skills' },
+    { id: 'projects', title: 'Projects', description: 'Projects, stack & certifications' },
     { id: 'goals', title: 'Goals', description: 'Career objectives' },
     { id: 'preferences', title: 'Preferences', description: 'Location & salary' }
   ];
 
-  // Auto-save functionality
-  useEffect(() => {
-    const subscription = form.watch(() => {
-      debouncedSave();
-    });
-    return () => subscription.unsubscribe();
-  }, [form.watch]);
+  // Entry editors are validated before moving on from their step
+  const stepFields: Record<string, Array<FieldPath<ProfileFormValues>>> = isStudent ? {
+    projects: ['projects', 'internships']
+  } : {
+    experience: ['yearsExperience', 'domains'],
+    projects: ['projects', 'stack', 'certifications'],
+    preferences: ['salaryRange']
+  };
+
+  // The debounced save outlives renders, so it calls the latest saveProfile through a ref
+  const latestSave = useRef<(silent?: boolean) => Promise<boolean>>();
 
   const debouncedSave = React.useMemo(
     () => {
@@ -110,119 +229,149 @@ const OnboardingProfile: React.FC = () => {
       return () => {
         clearTimeout(timeoutId);
         timeoutId = setTimeout(() => {
-          saveProfile(true); // Silent save
+          latestSave.current?.(true); // Silent save
         }, 2000);
       };
     },
     []
   );
 
+  // Auto-save functionality. Edits also go to the profile store, which tracks them so a save from
+  // another tab doesn't overwrite them. Field arrays echo their values back here after rendering,
+  // so only values that differ from the store count as edits.
+  useEffect(() => {
+    const subscription = form.watch((values, { name }) => {
+      if (!name) return;
+      const field = name.split('.')[0];
+      const edited = fromFormValues(values as Partial<ProfileFormValues>, isStudent)[field];
+      const current = fromFormValues(toFormValues(useProfileStore.getState().profile, isStudent), isStudent)[field];
+      if (sameValue(edited, current)) return;
+
+      useProfileStore.getState().updateProfile({ [field]: edited });
+      debouncedSave();
+    });
+    return () => subscription.unsubscribe();
+  }, [form, isStudent, debouncedSave]);
+
+  // Another tab's save was merged into the store: show it in every field not edited here
+  useEffect(() => {
+    const { profile: mergedProfile, editedFields } = useProfileStore.getState();
+    if (remoteRevision === 0 || !mergedProfile) return;
+
+    const untouched = (field: string) => !editedFields.includes(field as ProfileField);
+    Object.entries(toFormValues(mergedProfile, isStudent)).forEach(([field, value]) => {
+      const name = field as keyof ProfileFormValues;
+      if (untouched(field) && !sameValue(form.getValues(name), value)) {
+        form.setValue(name, value);
+      }
+    });
+    if (untouched('skills')) setSkills(mergedProfile.skills ?? []);
+    if (untouched('interests')) setInterests((mergedProfile as StudentProfile).interests ?? []);
+    if (untouched('preferredLocations')) setLocations(mergedProfile.preferredLocations ?? []);
+  }, [remoteRevision, form, isStudent]);
+
+  // Skills, interests and locations live outside the form, so their edits are recorded here
+  const changeSkills = (next: Array<{ name: string; level: string }>) => {
+    setSkills(next);
+    updateProfile({ skills: next as StudentProfile['skills'] });
+    debouncedSave();
+  };
+
+  const changeInterests = (next: string[]) => {
+    setInterests(next);
+    updateProfile({ interests: next });
+    debouncedSave();
+  };
+
+  const changeLocations = (next: string[]) => {
+    setLocations(next);
+    updateProfile({ preferredLocations: next });
+    debouncedSave();
+  };
+
   const addSkill = () => {
     if (newSkill.name.trim()) {
-      setSkills([...skills, newSkill]);
+      changeSkills([...skills, newSkill]);
       setNewSkill({ name: '', level: 'Intermediate' });
     }
   };
 
   const removeSkill = (index: number) => {
-    setSkills(skills.filter((_, i) => i !== index));
+    changeSkills(skills.filter((_, i) => i !== index));
   };
 
   const addInterest = () => {
     if (newInterest.trim() && !interests.includes(newInterest.trim())) {
-      setInterests([...interests, newInterest.trim()]);
+      changeInterests([...interests, newInterest.trim()]);
       setNewInterest('');
     }
   };
 
   const removeInterest = (interest: string) => {
-    setInterests(interests.filter(i => i !== interest));
+    changeInterests(interests.filter(i => i !== interest));
   };
 
   const addLocation = () => {
     if (newLocation.trim() && !locations.includes(newLocation.trim())) {
-      setLocations([...locations, newLocation.trim()]);
+      changeLocations([...locations, newLocation.trim()]);
       setNewLocation('');
     }
   };
 
   const removeLocation = (location: string) => {
-    setLocations(locations.filter(l => l !== location));
+    changeLocations(locations.filter(l => l !== location));
   };
 
+  // Returns whether the profile was saved
   const saveProfile = async (silent = false) => {
-    if (!currentUser?.id) return;
+    if (!currentUser?.id) return false;
+
+    // Entries that fail validation aren't saved; autosave waits until they're complete
+    const formData = form.getValues();
+    const entryFields = Object.values(stepFields).flat();
+    const result = schema.safeParse(formData);
+    const invalidEntries = !result.success &&
+      result.error.issues.some(issue => entryFields.includes(issue.path[0] as FieldPath<ProfileFormValues>));
+    if (invalidEntries) {
+      if (!silent) {
+        await form.trigger(entryFields);
+        toast({
+          title: "Check your entries",
+          description: "Some entries are incomplete or invalid, so the profile wasn't saved.",
+          variant: "destructive"
+        });
+      }
+      return false;
+    }
 
     setSaving(true);
     try {
-      const formData = form.getValues();
       const now = new Date();
+      // Keep what the confirmation step saved; it's set there, not on this page
+      const preferences: ProfilePreferences = storedProfile?.preferences ?? {
+        timeline: '6-months',
+        budget: 'budget-friendly',
+        remote: true,
+        relocation: false,
+        learningStyle: 'self-paced'
+      };
 
-      if (isStudent) {
-        const studentProfile: Omit<StudentProfile, 'id'> = {
-          userId: currentUser.id,
-          education: formData.education || [],
-          projects: [], // Will be filled in additional step
-          internships: [], // Will be filled in additional step
-          skills: skills as Array<{ name: string; level: 'Beginner' | 'Intermediate' | 'Advanced' }>,
-          interests,
-          preferredLocations: locations,
-          workAuthorization: formData.workAuthorization || '',
-          preferences: {
-            timeline: '6-months',
-            budget: 'budget-friendly',
-            remote: true,
-            relocation: false,
-            learningStyle: 'self-paced'
-          },
-          status: 'draft',
-          updatedAt: now
-        };
-
-        const existingProfile = await db.studentProfiles.where('userId').equals(currentUser.id).first();
-        
-        if (existingProfile) {
-          await db.studentProfiles.update(existingProfile.id!, studentProfile);
-        } else {
-          await db.studentProfiles.add(studentProfile);
-        }
-
-        setProfile(studentProfile as StudentProfile, 'student');
-      } else {
-        const professionalProfile: Omit<ProfessionalProfile, 'id'> = {
-          userId: currentUser.id,
-          company: formData.company || '',
-          role: formData.role || '',
-          yearsExperience: formData.yearsExperience || 0,
-          domains: [], // Will be filled in additional step
-          projects: [], // Will be filled in additional step
-          stack: [], // Will be filled in additional step
-          certifications: [], // Will be filled in additional step
-          skills: skills as Array<{ name: string; level: 'Beginner' | 'Intermediate' | 'Advanced' | 'Expert' }>,
-          desiredRoles: formData.desiredRoles || [],
-          salaryRange: { min: 0, max: 0, currency: 'USD' }, // Will be filled in additional step
-          preferredLocations: locations,
-          preferences: {
-            timeline: '6-months',
-            budget: 'budget-friendly',
-            remote: true,
-            relocation: false,
-            learningStyle: 'self-paced'
-          },
-          status: 'draft',
-          updatedAt: now
-        };
-
-        const existingProfile = await db.professionalProfiles.where('userId').equals(currentUser.id).first();
-        
-        if (existingProfile) {
-          await db.professionalProfiles.update(existingProfile.id!, professionalProfile);
-        } else {
-          await db.professionalProfiles.add(professionalProfile);
-        }
-
-        setProfile(professionalProfile as ProfessionalProfile, 'professional');
-      }
+      const profile = {
+        ...fromFormValues(formData, isStudent),
+        userId: currentUser.id,
+        skills,
+        ...(isStudent ? { interests } : {}),
+        preferredLocations: locations,
+        preferences,
+        notes: storedProfile?.notes,
+        status: 'draft' as const,
+        updatedAt: now
+      } as Omit<StudentProfile, 'id'> | Omit<ProfessionalProfile, 'id'>;
+      const profileType = isStudent ? 'student' : 'professional';
+
+      await saveStoredProfile(profile, profileType);
+
+      setProfile(profile as StudentProfile | ProfessionalProfile, profileType);
 
       if (!silent) {
         toast({
@@ -230,6 +379,7 @@ const OnboardingProfile: React.FC = () => {
           description: "Your information has been saved successfully."
         });
       }
+      return true;
     } catch (error) {
       console.error('Failed to save profile:', error);
       if (!silent) {
@@ -239,17 +389,31 @@ const OnboardingProfile: React.FC = () => {
           variant: "destructive"
         });
       }
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
+  latestSave.current = saveProfile;
+
   const handleNext = async () => {
+    const fields = stepFields[steps[currentStep].id];
+    if (fields && !(await form.trigger(fields))) {
+      toast({
+        title: "Check this step",
+        description: "Some entries are incomplete or invalid.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (currentStep < steps.length - 1) {
       setCurrentStep(currentStep + 1);
     } else {
-      await saveProfile();
-      navigate('/onboarding/additional');
+      if (await saveProfile()) {
+        navigate('/onboarding/additional');
+      }
     }
   };
 
@@ -311,7 +475,191 @@ const OnboardingProfile: React.FC = () => {
                   {...form.register('role')}
                 />
               </div>
+              <div>
+                <Label htmlFor="years-experience">Years of Experience</Label>
+                <Input
+                  id="years-experience"
+                  type="number"
+                  min={0}
+                  {...form.register('yearsExperience', { setValueAs: toNumber })}
+                />
+                <FieldError message={errors.yearsExperience?.message} />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="domains">Domains</Label>
+              <p className="text-xs text-muted-foreground mb-2">Industries or problem areas you've worked in</p>
+              <Controller
+                control={form.control}
+                name="domains"
+                render={({ field }) => (
+                  <TagInput id="domains" placeholder="e.g. Fintech" values={field.value ?? []} onChange={field.onChange} />
+                )}
+              />
+            </div>
+          </div>
+        );
+
+      case 'projects':
+        return (
+          <div className="space-y-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Projects</h3>
+                <Button type="button" variant="outline" size="sm" onClick={() => projects.append(emptyProject)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Project
+                </Button>
+              </div>
+
+              {projects.fields.length === 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Projects you've built give the analysis concrete evidence of your skills.
+                </p>
+              )}
+
+              {projects.fields.map((field, index) => (
+                <div key={field.id} className="space-y-3 rounded-md border border-border/50 p-4">
+                  <div className="flex items-start gap-2">
+                    <div className="grid flex-1 grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor={`project-name-${index}`}>Name</Label>
+                        <Input id={`project-name-${index}`} placeholder="Project name" {...form.register(`projects.${index}.name`)} />
+                        <FieldError message={errors.projects?.[index]?.name?.message} />
+                      </div>
+                      {isStudent ? (
+                        <div>
+                          <Label htmlFor={`project-url-${index}`}>Link (Optional)</Label>
+                          <Input id={`project-url-${index}`} placeholder="https://..." {...form.register(`projects.${index}.url`)} />
+                          <FieldError message={errors.projects?.[index]?.url?.message} />
+                        </div>
+                      ) : (
+                        <div>
+                          <Label htmlFor={`project-impact-${index}`}>Impact</Label>
+                          <Input
+                            id={`project-impact-${index}`}
+                            placeholder="e.g. Cut checkout latency by 40%"
+                            {...form.register(`projects.${index}.impact`)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={() => projects.remove(index)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div>
+                    <Label htmlFor={`project-description-${index}`}>Description</Label>
+                    <Textarea
+                      id={`project-description-${index}`}
+                      placeholder="What it does and what you were responsible for"
+                      rows={2}
+                      {...form.register(`projects.${index}.description`)}
+                    />
+                    <FieldError message={errors.projects?.[index]?.description?.message} />
+                  </div>
+                  <div>
+                    <Label htmlFor={`project-technologies-${index}`}>Technologies</Label>
+                    <Controller
+                      control={form.control}
+                      name={`projects.${index}.technologies`}
+                      render={({ field: technologies }) => (
+                        <TagInput
+                          id={`project-technologies-${index}`}
+                          placeholder="Add a technology"
+                          values={technologies.value ?? []}
+                          onChange={technologies.onChange}
+                        />
+                      )}
+                    />
+                  </div>
+                </div>
+              ))}
             </div>
+
+            {isStudent ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold">Internships</h3>
+                  <Button type="button" variant="outline" size="sm" onClick={() => internships.append(emptyInternship)}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Internship
+                  </Button>
+                </div>
+
+                {internships.fields.map((field, index) => (
+                  <div key={field.id} className="space-y-3 rounded-md border border-border/50 p-4">
+                    <div className="flex items-start gap-2">
+                      <div className="grid flex-1 grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                          <Label htmlFor={`internship-company-${index}`}>Company</Label>
+                          <Input id={`internship-company-${index}`} placeholder="Company name" {...form.register(`internships.${index}.company`)} />
+                          <FieldError message={errors.internships?.[index]?.company?.message} />
+                        </div>
+                        <div>
+                          <Label htmlFor={`internship-role-${index}`}>Role</Label>
+                          <Input id={`internship-role-${index}`} placeholder="e.g. Data Analyst Intern" {...form.register(`internships.${index}.role`)} />
+                          <FieldError message={errors.internships?.[index]?.role?.message} />
+                        </div>
+                        <div>
+                          <Label htmlFor={`internship-duration-${index}`}>Duration</Label>
+                          <Input id={`internship-duration-${index}`} placeholder="e.g. Jun - Aug 2024" {...form.register(`internships.${index}.duration`)} />
+                        </div>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground hover:text-foreground"
+                        onClick={() => internships.remove(index)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div>
+                      <Label htmlFor={`internship-description-${index}`}>Description</Label>
+                      <Textarea
+                        id={`internship-description-${index}`}
+                        placeholder="What you worked on and learned"
+                        rows={2}
+                        {...form.register(`internships.${index}.description`)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label htmlFor="stack">Tech Stack</Label>
+                  <p className="text-xs text-muted-foreground mb-2">Languages, frameworks and tools you use day to day</p>
+                  <Controller
+                    control={form.control}
+                    name="stack"
+                    render={({ field }) => (
+                      <TagInput id="stack" placeholder="e.g. TypeScript" values={field.value ?? []} onChange={field.onChange} />
+                    )}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="certifications">Certifications</Label>
+                  <p className="text-xs text-muted-foreground mb-2">Certifications you currently hold</p>
+                  <Controller
+                    control={form.control}
+                    name="certifications"
+                    render={({ field }) => (
+                      <TagInput id="certifications" placeholder="e.g. AWS Solutions Architect" values={field.value ?? []} onChange={field.onChange} />
+                    )}
+                  />
+                </div>
+              </div>
+            )}
           </div>
         );
 
@@ -442,6 +790,44 @@ const OnboardingProfile: React.FC = () => {
                 ))}
               </div>
             </div>
+
+            {!isStudent && (
+              <div>
+                <Label>Desired Salary Range</Label>
+                <div className="grid grid-cols-3 gap-4 mt-2">
+                  <div>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Minimum"
+                      aria-label="Minimum salary"
+                      {...form.register('salaryRange.min', { setValueAs: toNumber })}
+                    />
+                    <FieldError message={errors.salaryRange?.min?.message} />
+                  </div>
+                  <div>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Maximum"
+                      aria-label="Maximum salary"
+                      {...form.register('salaryRange.max', { setValueAs: toNumber })}
+                    />
+                    <FieldError message={errors.salaryRange?.max?.message} />
+                  </div>
+                  <div>
+                    <Input
+                      placeholder="USD"
+                      maxLength={3}
+                      aria-label="Currency"
+                      {...form.register('salaryRange.currency')}
+                    />
+                    <FieldError message={errors.salaryRange?.currency?.message} />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Yearly, before tax. Leave at 0 if you'd rather not say.</p>
+              </div>
+            )}
           </div>
         );
 
@@ -15,7 +15,9 @@ import {
   Zap,
   Moon,
   Sun,
-  Monitor
+  Monitor,
+  Cpu,
+  Undo2
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -26,9 +28,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import Layout from '@/components/Layout';
-import { useSettingsStore } from '@/lib/stores';
-import { setApiKey, clearApiKey, testApiKey } from '@/lib/openai';
-import { exportAllData, importData } from '@/lib/db';
+import UsagePanel from '@/components/UsagePanel';
+import PromptEditor from '@/components/PromptEditor';
+import ResponseCachePanel from '@/components/ResponseCachePanel';
+import ImportDialog, { type PendingImport } from '@/components/ImportDialog';
+import ExportDialog from '@/components/ExportDialog';
+import UnlockBackupDialog, { type LockedImport } from '@/components/UnlockBackupDialog';
+import { useAuthStore, useSettingsStore } from '@/lib/stores';
+import {
+  setApiKey,
+  clearApiKey,
+  testApiKey,
+  hasEncryptedApiKey,
+  getActiveProviderSettings,
+  saveProviderSettings,
+  DEFAULT_TIMEOUT_SECONDS
+} from '@/lib/openai';
+import { PROVIDERS, getProvider, type MockFailure, type ProviderId, type ProviderSettings } from '@/lib/providers';
+import { getImportSnapshot, undoLastImport, type ImportSnapshot } from '@/lib/db';
+import { BackupFormatError, isEncryptedBackup, prepareBackup } from '@/lib/backup';
 import { toast } from '@/hooks/use-toast';
 
 const SettingsPage: React.FC = () => {
@@ -42,12 +60,25 @@ const SettingsPage: React.FC = () => {
     toggleAnimations,
     updateSetting
   } = useSettingsStore();
+  const { currentUser } = useAuthStore();
+
+  const activeSettings = currentUser?.providerSettings || getActiveProviderSettings();
+  const activeProvider = getProvider(activeSettings.provider);
+  const [providerDraft, setProviderDraft] = useState<ProviderSettings>(activeSettings);
+  const draftProvider = getProvider(providerDraft.provider);
 
   const [tempApiKey, setTempApiKey] = useState('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isTestingKey, setIsTestingKey] = useState(false);
-  const [storageType, setStorageType] = useState<'session' | 'encrypted_local'>('session');
+  const [storageType, setStorageType] = useState<'session' | 'encrypted_local'>(
+    hasEncryptedApiKey() ? 'encrypted_local' : 'session'
+  );
+  const [keyPassphrase, setKeyPassphrase] = useState('');
   const [theme, setTheme] = useState<'light' | 'dark' | 'system'>('system');
+  const [exportOpen, setExportOpen] = useState(false);
+  const [lockedImport, setLockedImport] = useState<LockedImport | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [importSnapshot, setImportSnapshot] = useState<ImportSnapshot | null>(null);
 
   useEffect(() => {
     setTempApiKey(openaiKey);
@@ -57,18 +88,90 @@ const SettingsPage: React.FC = () => {
     }
   }, [openaiKey, settings]);
 
+  useEffect(() => {
+    getImportSnapshot()
+      .then(snapshot => setImportSnapshot(snapshot ?? null))
+      .catch(error => console.error('Failed to load import snapshot:', error));
+  }, []);
+
+  const handleProviderChange = (provider: ProviderId) => {
+    setProviderDraft({
+      provider,
+      model: getProvider(provider).defaultModel,
+      timeoutSeconds: providerDraft.timeoutSeconds
+    });
+  };
+
+  const handleSaveProvider = async () => {
+    if (!providerDraft.model.trim()) {
+      toast({
+        title: "Model Required",
+        description: "Please enter the model to use.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (providerDraft.provider === 'azure' && !providerDraft.baseUrl?.trim()) {
+      toast({
+        title: "Endpoint Required",
+        description: "Please enter your Azure OpenAI resource endpoint.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await saveProviderSettings({
+        ...providerDraft,
+        model: providerDraft.model.trim(),
+        baseUrl: providerDraft.baseUrl?.trim() || undefined,
+        deployment: providerDraft.deployment?.trim() || undefined,
+        apiVersion: providerDraft.apiVersion?.trim() || undefined,
+        timeoutSeconds: providerDraft.timeoutSeconds
+          ? Math.min(600, Math.max(10, Math.round(providerDraft.timeoutSeconds)))
+          : undefined,
+        mockLatencyMs: providerDraft.mockLatencyMs !== undefined
+          ? Math.min(10000, Math.max(0, Math.round(providerDraft.mockLatencyMs)))
+          : undefined,
+        mockFailEvery: providerDraft.mockFailEvery ? Math.max(1, Math.round(providerDraft.mockFailEvery)) : undefined
+      });
+      setStorageType(hasEncryptedApiKey(providerDraft.provider) ? 'encrypted_local' : 'session');
+      toast({
+        title: "Provider Saved",
+        description: `${draftProvider.label} will be used for analysis and chat.`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save provider settings. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleSaveApiKey = async () => {
-    if (!tempApiKey.trim()) {
+    if (!tempApiKey.trim() && activeProvider.requiresKey) {
       toast({
         title: "API Key Required",
-        description: "Please enter your OpenAI API key.",
+        description: `Please enter your ${activeProvider.label} API key.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (storageType === 'encrypted_local' && keyPassphrase.length < 8) {
+      toast({
+        title: "Passphrase Required",
+        description: "Enter a passphrase of at least 8 characters to encrypt your API key.",
         variant: "destructive"
       });
       return;
     }
 
     try {
-      setApiKey(tempApiKey, storageType === 'encrypted_local');
+      await setApiKey(tempApiKey, storageType === 'encrypted_local', keyPassphrase);
+      setKeyPassphrase('');
       toast({
         title: "API Key Saved",
         description: `Your API key has been saved ${storageType === 'encrypted_local' ? 'with encryption' : 'for this session'}.`
@@ -76,17 +179,17 @@ const SettingsPage: React.FC = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to save API key. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to save API key. Please try again.",
         variant: "destructive"
       });
     }
   };
 
   const handleTestApiKey = async () => {
-    if (!tempApiKey.trim()) {
+    if (!tempApiKey.trim() && activeProvider.requiresKey) {
       toast({
         title: "API Key Required",
-        description: "Please enter your OpenAI API key first.",
+        description: `Please enter your ${activeProvider.label} API key first.`,
         variant: "destructive"
       });
       return;
@@ -94,7 +197,7 @@ const SettingsPage: React.FC = () => {
 
     setIsTestingKey(true);
     try {
-      const isValid = await testApiKey(tempApiKey);
+      const isValid = await testApiKey(tempApiKey, activeSettings);
       setKeyValid(isValid);
       
       toast({
@@ -125,50 +228,28 @@ const SettingsPage: React.FC = () => {
     });
   };
 
-  const handleExportData = async () => {
-    try {
-      const data = await exportAllData();
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `skilllead-backup-${new Date().toISOString().split('T')[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      toast({
-        title: "Data Exported",
-        description: "Your data has been exported successfully."
-      });
-    } catch (error) {
-      toast({
-        title: "Export Failed",
-        description: "Failed to export data. Please try again.",
-        variant: "destructive"
-      });
-    }
-  };
-
   const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    // Allow picking the same file again after fixing it
+    event.target.value = '';
 
     const reader = new FileReader();
-    reader.onload = async (e) => {
+    reader.onload = (e) => {
       try {
-        const data = JSON.parse(e.target?.result as string);
-        await importData(data);
-        
-        toast({
-          title: "Data Imported",
-          description: "Your data has been imported successfully. Please refresh the page."
-        });
+        const raw = JSON.parse(e.target?.result as string);
+        if (isEncryptedBackup(raw)) {
+          setLockedImport({ fileName: file.name, file: raw });
+          return;
+        }
+        const { data, report, sections } = prepareBackup(raw);
+        setPendingImport({ fileName: file.name, data, report, sections });
       } catch (error) {
         toast({
           title: "Import Failed",
-          description: "Invalid backup file or import failed. Please try again.",
+          description: error instanceof BackupFormatError
+            ? error.message
+            : "Invalid backup file or import failed. Please try again.",
           variant: "destructive"
         });
       }
@@ -176,6 +257,25 @@ const SettingsPage: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleUndoImport = async () => {
+    if (!confirm("Restore your data from before the last import? Anything changed since then will be lost.")) return;
+
+    try {
+      await undoLastImport();
+      setImportSnapshot(null);
+      toast({
+        title: "Import Undone",
+        description: "Your data from before the import has been restored. Please refresh the page."
+      });
+    } catch (error) {
+      toast({
+        title: "Undo Failed",
+        description: "Failed to restore your previous data. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleClearAllData = async () => {
     if (confirm("Are you sure you want to clear all local data? This action cannot be undone.")) {
       try {
@@ -222,7 +322,171 @@ const SettingsPage: React.FC = () => {
             </p>
           </div>
 
-          {/* OpenAI API Configuration */}
+          {/* AI Provider */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.05 }}
+          >
+            <Card className="glass">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Cpu className="w-5 h-5" />
+                  <span>AI Provider</span>
+                </CardTitle>
+                <CardDescription>
+                  Choose which model provider powers your career analysis and chat
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Provider</Label>
+                    <Select value={providerDraft.provider} onValueChange={(value: ProviderId) => handleProviderChange(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.values(PROVIDERS).map(provider => (
+                          <SelectItem key={provider.id} value={provider.id}>
+                            {provider.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="provider-model">Model</Label>
+                    <Input
+                      id="provider-model"
+                      placeholder={draftProvider.defaultModel}
+                      value={providerDraft.model}
+                      onChange={(e) => setProviderDraft({ ...providerDraft, model: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                {(providerDraft.provider === 'openai-compatible' || providerDraft.provider === 'azure') && (
+                  <div className="space-y-2">
+                    <Label htmlFor="provider-base-url">
+                      {providerDraft.provider === 'azure' ? 'Resource Endpoint' : 'Base URL'}
+                    </Label>
+                    <Input
+                      id="provider-base-url"
+                      placeholder={providerDraft.provider === 'azure'
+                        ? 'https://your-resource.openai.azure.com'
+                        : 'http://localhost:11434/v1'
+                      }
+                      value={providerDraft.baseUrl || ''}
+                      onChange={(e) => setProviderDraft({ ...providerDraft, baseUrl: e.target.value })}
+                    />
+                  </div>
+                )}
+
+                {providerDraft.provider === 'azure' && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="provider-deployment">Deployment</Label>
+                      <Input
+                        id="provider-deployment"
+                        placeholder="Defaults to the model name"
+                        value={providerDraft.deployment || ''}
+                        onChange={(e) => setProviderDraft({ ...providerDraft, deployment: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="provider-api-version">API Version</Label>
+                      <Input
+                        id="provider-api-version"
+                        placeholder="2024-06-01"
+                        value={providerDraft.apiVersion || ''}
+                        onChange={(e) => setProviderDraft({ ...providerDraft, apiVersion: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {providerDraft.provider === 'mock' && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="mock-latency">Latency (ms)</Label>
+                      <Input
+                        id="mock-latency"
+                        type="number"
+                        min={0}
+                        max={10000}
+                        placeholder="300"
+                        value={providerDraft.mockLatencyMs ?? ''}
+                        onChange={(e) => setProviderDraft({
+                          ...providerDraft,
+                          mockLatencyMs: e.target.value ? Number(e.target.value) : undefined
+                        })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="mock-fail-every">Fail Every Nth Request</Label>
+                      <Input
+                        id="mock-fail-every"
+                        type="number"
+                        min={1}
+                        placeholder="Never"
+                        value={providerDraft.mockFailEvery ?? ''}
+                        onChange={(e) => setProviderDraft({
+                          ...providerDraft,
+                          mockFailEvery: e.target.value ? Number(e.target.value) : undefined
+                        })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Injected Failure</Label>
+                      <Select
+                        value={providerDraft.mockFailure || 'server'}
+                        onValueChange={(value: MockFailure) => setProviderDraft({ ...providerDraft, mockFailure: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="server">Server error</SelectItem>
+                          <SelectItem value="rate-limit">Rate limit</SelectItem>
+                          <SelectItem value="network">Network failure</SelectItem>
+                          <SelectItem value="timeout">Timeout</SelectItem>
+                          <SelectItem value="content-filter">Content filter</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="provider-timeout">Request Timeout (seconds)</Label>
+                  <Input
+                    id="provider-timeout"
+                    type="number"
+                    min={10}
+                    max={600}
+                    className="w-48"
+                    placeholder={String(DEFAULT_TIMEOUT_SECONDS)}
+                    value={providerDraft.timeoutSeconds ?? ''}
+                    onChange={(e) => setProviderDraft({
+                      ...providerDraft,
+                      timeoutSeconds: e.target.value ? Number(e.target.value) : undefined
+                    })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    How long to wait for a response before retrying. Streaming replies time out only if they stall.
+                  </p>
+                </div>
+
+                <Button onClick={handleSaveProvider}>
+                  Save Provider
+                </Button>
+              </CardContent>
+            </Card>
+          </motion.div>
+
+          {/* API Key Configuration */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -232,10 +496,10 @@ const SettingsPage: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Key className="w-5 h-5" />
-                  <span>OpenAI API Configuration</span>
+                  <span>{activeProvider.label} API Configuration</span>
                 </CardTitle>
                 <CardDescription>
-                  Configure your OpenAI API key for personalized career analysis and chat
+                  Configure your {activeProvider.label} API key for personalized career analysis and chat
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -247,7 +511,7 @@ const SettingsPage: React.FC = () => {
                         <Input
                           id="api-key"
                           type={showApiKey ? 'text' : 'password'}
-                          placeholder="sk-..."
+                          placeholder={activeProvider.keyPlaceholder}
                           value={tempApiKey}
                           onChange={(e) => setTempApiKey(e.target.value)}
                         />
@@ -263,7 +527,7 @@ const SettingsPage: React.FC = () => {
                       </div>
                       <Button 
                         onClick={handleTestApiKey} 
-                        disabled={isTestingKey || !tempApiKey.trim()}
+                        disabled={isTestingKey || (activeProvider.requiresKey && !tempApiKey.trim())}
                         variant="outline"
                       >
                         <TestTube className="w-4 h-4 mr-2" />
@@ -308,6 +572,22 @@ const SettingsPage: React.FC = () => {
                     </p>
                   </div>
 
+                  {storageType === 'encrypted_local' && (
+                    <div className="space-y-2">
+                      <Label htmlFor="key-passphrase">Encryption Passphrase</Label>
+                      <Input
+                        id="key-passphrase"
+                        type="password"
+                        placeholder="At least 8 characters"
+                        value={keyPassphrase}
+                        onChange={(e) => setKeyPassphrase(e.target.value)}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        You'll enter this passphrase to unlock the key each time you open the app. It cannot be recovered.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="flex space-x-2">
                     <Button onClick={handleSaveApiKey}>
                       Save API Key
@@ -323,22 +603,35 @@ const SettingsPage: React.FC = () => {
                 <Alert>
                   <Key className="w-4 h-4" />
                   <AlertDescription>
-                    Your API key is never sent to our servers. It's stored locally and used directly with OpenAI's API.
-                    Get your API key from{' '}
-                    <a 
-                      href="https://platform.openai.com/api-keys" 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                      className="underline hover:text-primary"
-                    >
-                      OpenAI's platform
-                    </a>.
+                    Your API key is never sent to our servers. It's stored locally and used directly with {activeProvider.label}'s API.
+                    {activeProvider.keyHelpUrl && (
+                      <>
+                        {' '}Get your API key from{' '}
+                        <a 
+                          href={activeProvider.keyHelpUrl} 
+                          target="_blank" 
+                          rel="noopener noreferrer"
+                          className="underline hover:text-primary"
+                        >
+                          {activeProvider.label}'s platform
+                        </a>.
+                      </>
+                    )}
                   </AlertDescription>
                 </Alert>
               </CardContent>
             </Card>
           </motion.div>
 
+          {/* Usage & Costs */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.15 }}
+          >
+            <UsagePanel />
+          </motion.div>
+
           {/* App Preferences */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -406,6 +699,24 @@ const SettingsPage: React.FC = () => {
             </Card>
           </motion.div>
 
+          {/* Prompts */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+          >
+            <PromptEditor />
+          </motion.div>
+
+          {/* Response Cache */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.275 }}
+          >
+            <ResponseCachePanel />
+          </motion.div>
+
           {/* Data Management */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -424,7 +735,7 @@ const SettingsPage: React.FC = () => {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <Button onClick={handleExportData} variant="outline" className="h-auto py-3">
+                  <Button onClick={() => setExportOpen(true)} variant="outline" className="h-auto py-3">
                     <div className="flex flex-col items-center space-y-1">
                       <Download className="w-5 h-5" />
                       <span className="font-medium">Export Data</span>
@@ -435,7 +746,7 @@ const SettingsPage: React.FC = () => {
                   <div>
                     <input
                       type="file"
-                      accept=".json"
+                      accept=".json,.skilllead"
                       onChange={handleImportData}
                       style={{ display: 'none' }}
                       id="import-input"
@@ -454,6 +765,18 @@ const SettingsPage: React.FC = () => {
                   </div>
                 </div>
 
+                {importSnapshot && (
+                  <div className="flex items-center justify-between gap-4 rounded-md border border-border/50 p-3">
+                    <p className="text-sm text-muted-foreground">
+                      Last import on {new Date(importSnapshot.createdAt).toLocaleString()} ({importSnapshot.mode === 'merge' ? 'merged' : 'replaced your data'})
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleUndoImport}>
+                      <Undo2 className="w-4 h-4 mr-2" />
+                      Undo Import
+                    </Button>
+                  </div>
+                )}
+
                 <Separator />
 
                 <div className="space-y-2">
@@ -488,6 +811,26 @@ const SettingsPage: React.FC = () => {
             </Alert>
           </motion.div>
         </div>
+
+        <ExportDialog open={exportOpen} onOpenChange={setExportOpen} />
+
+        <UnlockBackupDialog
+          locked={lockedImport}
+          onClose={() => setLockedImport(null)}
+          onUnlocked={(pending) => {
+            setLockedImport(null);
+            setPendingImport(pending);
+          }}
+        />
+
+        <ImportDialog
+          pending={pendingImport}
+          onClose={() => setPendingImport(null)}
+          onImported={() => {
+            setPendingImport(null);
+            getImportSnapshot().then(snapshot => setImportSnapshot(snapshot ?? null));
+          }}
+        />
       </div>
     </Layout>
   );